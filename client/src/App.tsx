@@ -4,20 +4,28 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import Layout from "@/components/layout";
+import { AuthProvider } from "@/hooks/use-auth";
+import { ProtectedRoute } from "@/lib/protected-route";
 import Home from "@/pages/home";
+import AuthPage from "@/pages/auth-page";
+import ApiTokens from "@/pages/api-tokens";
 import TextToFile from "@/pages/text-to-file";
 import FileMerger from "@/pages/file-merger";
 import DuplicateChecker from "@/pages/duplicate-checker";
+import LinkHealth from "@/pages/link-health";
 import NotFound from "@/pages/not-found";
 
 function Router() {
   return (
     <Layout>
       <Switch>
-        <Route path="/" component={Home} />
+        <ProtectedRoute path="/" component={Home} />
+        <Route path="/auth" component={AuthPage} />
         <Route path="/text-to-file" component={TextToFile} />
         <Route path="/file-merger" component={FileMerger} />
         <Route path="/duplicate-checker" component={DuplicateChecker} />
+        <ProtectedRoute path="/link-health" component={LinkHealth} />
+        <ProtectedRoute path="/api-tokens" component={ApiTokens} />
         <Route component={NotFound} />
       </Switch>
     </Layout>
@@ -27,10 +35,12 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <TooltipProvider>
-        <Toaster />
-        <Router />
-      </TooltipProvider>
+      <AuthProvider>
+        <TooltipProvider>
+          <Toaster />
+          <Router />
+        </TooltipProvider>
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
@@ -0,0 +1,95 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowDown, ArrowUp, ArrowUpDown } from "lucide-react";
+import type { DuplicateGroup } from "@shared/schema";
+
+type SortColumn = "url" | "count" | "variants" | "firstLine";
+
+const compareGroups: Record<SortColumn, (a: DuplicateGroup, b: DuplicateGroup) => number> = {
+  url: (a, b) => a.kept.localeCompare(b.kept),
+  count: (a, b) => a.count - b.count,
+  variants: (a, b) => a.variants.length - b.variants.length,
+  firstLine: (a, b) => a.occurrences[0].line - b.occurrences[0].line,
+};
+
+interface DuplicateReportProps {
+  groups: DuplicateGroup[];
+}
+
+export default function DuplicateReport({ groups }: DuplicateReportProps) {
+  // Most repeated first, which is what people usually look for
+  const [sort, setSort] = useState<{ column: SortColumn; descending: boolean }>({ column: "count", descending: true });
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  const sorted = groups
+    .map((group, index) => ({ group, index }))
+    .sort((a, b) => {
+      const order = compareGroups[sort.column](a.group, b.group);
+      return (sort.descending ? -order : order) || a.index - b.index;
+    });
+
+  const sortBy = (column: SortColumn) => {
+    setSort(current => ({
+      column,
+      descending: current.column === column ? !current.descending : column !== "url" && column !== "firstLine",
+    }));
+  };
+
+  const header = (column: SortColumn, label: string, className?: string) => {
+    const Icon = sort.column !== column ? ArrowUpDown : sort.descending ? ArrowDown : ArrowUp;
+    return (
+      <TableHead className={className}>
+        <Button variant="ghost" size="sm" onClick={() => sortBy(column)} className="-ml-3 space-x-1">
+          <span>{label}</span>
+          <Icon className="h-3 w-3" />
+        </Button>
+      </TableHead>
+    );
+  };
+
+  return (
+    <div className="max-h-96 overflow-y-auto border border-slate-200 rounded-lg">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            {header("url", "Kept URL")}
+            {header("count", "Occurrences", "w-32")}
+            {header("variants", "Variants", "w-28")}
+            {header("firstLine", "Lines", "w-48")}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {sorted.map(({ group, index }) => (
+            <TableRow
+              key={index}
+              onClick={() => setExpanded(expanded === index ? null : index)}
+              className="cursor-pointer align-top"
+            >
+              <TableCell className="font-mono break-all">
+                <p className="text-slate-900">{group.kept}</p>
+                {expanded === index && (
+                  <div className="mt-2 space-y-1">
+                    {group.occurrences.map((occurrence, position) => (
+                      <div key={position} className="flex items-center space-x-2 text-xs">
+                        <span className="text-slate-400 w-12 text-right">{occurrence.line}</span>
+                        <span className="text-slate-600 break-all">{occurrence.url}</span>
+                        {position === 0 && <Badge variant="secondary">kept</Badge>}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </TableCell>
+              <TableCell>{group.count}</TableCell>
+              <TableCell>{group.variants.length}</TableCell>
+              <TableCell className="text-slate-600 font-mono text-xs">
+                {group.occurrences.map(occurrence => occurrence.line).join(", ")}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { equivalenceRules, type EquivalenceRule } from "@shared/schema";
+
+const ruleLabels: Record<EquivalenceRule, { title: string; example: string }> = {
+  scheme: { title: "Ignore http vs https", example: "http://a.com = https://a.com" },
+  hostCase: { title: "Ignore host case", example: "Example.com = example.com" },
+  trailingSlash: { title: "Ignore trailing slash", example: "a.com/page/ = a.com/page" },
+  www: { title: "Ignore www. prefix", example: "www.a.com = a.com" },
+  queryOrder: { title: "Ignore query order", example: "?b=2&a=1 = ?a=1&b=2" },
+  trackingParams: { title: "Ignore tracking parameters", example: "?utm_source=x = no query" },
+  fragment: { title: "Ignore #fragment", example: "a.com/page#top = a.com/page" },
+};
+
+interface EquivalenceRulePickerProps {
+  value: EquivalenceRule[];
+  onChange: (rules: EquivalenceRule[]) => void;
+  disabled?: boolean;
+}
+
+export default function EquivalenceRulePicker({ value, onChange, disabled }: EquivalenceRulePickerProps) {
+  const toggle = (rule: EquivalenceRule, checked: boolean) => {
+    // Kept in declaration order so the same selection always looks the same
+    onChange(equivalenceRules.filter(r => (r === rule ? checked : value.includes(r))));
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      {equivalenceRules.map((rule) => (
+        <div key={rule} className="flex items-start space-x-2">
+          <Checkbox
+            id={`rule-${rule}`}
+            checked={value.includes(rule)}
+            onCheckedChange={(checked) => toggle(rule, checked === true)}
+            disabled={disabled}
+          />
+          <div>
+            <Label htmlFor={`rule-${rule}`} className="font-medium">{ruleLabels[rule].title}</Label>
+            <p className="text-slate-500 text-xs font-mono">{ruleLabels[rule].example}</p>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { exportFormatDetails, exportFormats, type ExportFormat } from "@shared/link-export";
+
+interface ExportFormatPickerProps {
+  value: ExportFormat;
+  onChange: (format: ExportFormat) => void;
+  id?: string;
+}
+
+export default function ExportFormatPicker({ value, onChange, id = "export-format" }: ExportFormatPickerProps) {
+  return (
+    <div>
+      <Label htmlFor={id}>Format</Label>
+      <Select value={value} onValueChange={(next) => onChange(next as ExportFormat)}>
+        <SelectTrigger id={id} className="mt-2 w-48">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {exportFormats.map(format => (
+            <SelectItem key={format} value={format}>{exportFormatDetails[format].label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { getInputFormats } from "@shared/input-formats";
+import type { InputFormat, InputOptions } from "@shared/schema";
+
+interface InputFormatPickerProps {
+  value: InputOptions;
+  onChange: (options: InputOptions) => void;
+  disabled?: boolean;
+}
+
+export default function InputFormatPicker({ value, onChange, disabled }: InputFormatPickerProps) {
+  const format = value.format ?? "auto";
+  // With "auto" any file may turn out to be CSV or JSON, so both selectors stay available
+  const showCsv = format === "auto" || format === "csv";
+  const showJson = format === "auto" || format === "json";
+
+  // Text fields apply when they lose focus, not on every keystroke, since
+  // each change analyzes the current files again
+  const commit = (field: "csvColumn" | "jsonPath", text: string) => {
+    if (text.trim() !== (value[field] ?? "")) onChange({ ...value, [field]: text.trim() });
+  };
+
+  return (
+    <div className="grid grid-cols-3 gap-3">
+      <div>
+        <Label htmlFor="input-format">Input format</Label>
+        <Select
+          value={format}
+          onValueChange={(next) => onChange({ ...value, format: next as InputFormat | "auto" })}
+          disabled={disabled}
+        >
+          <SelectTrigger id="input-format" className="mt-2">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="auto">Detect from file name</SelectItem>
+            {getInputFormats().map(definition => (
+              <SelectItem key={definition.format} value={definition.format}>{definition.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {showCsv && (
+        <div>
+          <Label htmlFor="csv-column">CSV column</Label>
+          <Input
+            id="csv-column"
+            defaultValue={value.csvColumn ?? ""}
+            onBlur={(e) => commit("csvColumn", e.target.value)}
+            placeholder="All columns"
+            disabled={disabled}
+            className="mt-2"
+          />
+        </div>
+      )}
+      {showJson && (
+        <div>
+          <Label htmlFor="json-path">JSON path</Label>
+          <Input
+            id="json-path"
+            defaultValue={value.jsonPath ?? ""}
+            onBlur={(e) => commit("jsonPath", e.target.value)}
+            placeholder="items[*].url"
+            disabled={disabled}
+            className="mt-2"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,13 +3,18 @@ import { Link, useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { cn } from "@/lib/utils";
+import { useAuth } from "@/hooks/use-auth";
 import { 
   Link as LinkIcon, 
   FileText, 
   Search, 
   Menu, 
   X,
-  Merge
+  Merge,
+  LogIn,
+  LogOut,
+  KeyRound,
+  HeartPulse
 } from "lucide-react";
 
 interface LayoutProps {
@@ -40,12 +45,25 @@ const navigation = [
     href: "/duplicate-checker",
     icon: Search,
     description: "Find and remove duplicate URLs from files"
+  },
+  {
+    name: "Link Health",
+    href: "/link-health",
+    icon: HeartPulse,
+    description: "Find links that broke or moved"
+  },
+  {
+    name: "API Tokens",
+    href: "/api-tokens",
+    icon: KeyRound,
+    description: "Access the URL API from scripts and bots"
   }
 ];
 
 export default function Layout({ children }: LayoutProps) {
   const [location] = useLocation();
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const { user, logoutMutation } = useAuth();
 
   return (
     <div className="min-h-screen bg-slate-50">
@@ -133,6 +151,34 @@ export default function Layout({ children }: LayoutProps) {
               })}
             </nav>
 
+            {/* Account */}
+            <div className="px-4 py-4 border-t border-slate-200">
+              {user ? (
+                <div className="flex items-center justify-between px-2">
+                  <div className="min-w-0">
+                    <p className="text-slate-500 text-xs">Signed in as</p>
+                    <p className="text-slate-900 text-sm font-medium truncate">{user.username}</p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => logoutMutation.mutate()}
+                    disabled={logoutMutation.isPending}
+                    title="Log out"
+                  >
+                    <LogOut className="h-4 w-4" />
+                  </Button>
+                </div>
+              ) : (
+                <Link href="/auth" onClick={() => setSidebarOpen(false)}>
+                  <Button variant="outline" size="sm" className="w-full flex items-center space-x-2">
+                    <LogIn className="h-4 w-4" />
+                    <span>Log in</span>
+                  </Button>
+                </Link>
+              )}
+            </div>
+
             {/* Footer */}
             <div className="px-6 py-4 border-t border-slate-200">
               <p className="text-slate-500 text-xs">
@@ -0,0 +1,55 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { ChevronDown, ChevronRight, FileQuestion } from "lucide-react";
+import type { NonUrlLine } from "@shared/schema";
+
+interface NonUrlLinesProps {
+  lines: NonUrlLine[];
+  // Lines without a URL in the input, large uploads only return the first ones
+  total?: number;
+  // Names for the `file` index of merged inputs
+  fileNames?: string[];
+}
+
+const PREVIEW_LIMIT = 50;
+
+export default function NonUrlLines({ lines, total = lines.length, fileNames }: NonUrlLinesProps) {
+  const [expanded, setExpanded] = useState(false);
+  if (total === 0) return null;
+  const shown = Math.min(lines.length, PREVIEW_LIMIT);
+
+  return (
+    <div className="border border-slate-200 rounded-lg">
+      <Button
+        variant="ghost"
+        onClick={() => setExpanded(!expanded)}
+        className="w-full justify-start space-x-2 text-slate-600"
+      >
+        {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+        <FileQuestion className="h-4 w-4" />
+        <span>
+          {total} {total === 1 ? "line" : "lines"} without a URL skipped
+        </span>
+      </Button>
+
+      {expanded && (
+        <div className="space-y-1 max-h-60 overflow-y-auto px-3 pb-3">
+          {lines.slice(0, PREVIEW_LIMIT).map((entry, index) => (
+            <div key={index} className="flex items-start space-x-3 p-2 bg-slate-50 rounded text-sm">
+              <span className="text-slate-400 font-mono whitespace-nowrap">
+                {entry.file !== undefined && `${fileNames?.[entry.file] ?? `File ${entry.file + 1}`}:`}
+                {entry.line}
+              </span>
+              <span className="text-slate-700 break-all">{entry.text}</span>
+            </div>
+          ))}
+          {total > shown && (
+            <p className="text-slate-500 text-sm text-center py-2">
+              ... and {total - shown} more lines
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import { useState } from "react";
+import type { PageMetadata } from "@shared/schema";
+
+interface PagePreviewProps {
+  metadata: PageMetadata;
+  url: string;
+}
+
+export default function PagePreview({ metadata, url }: PagePreviewProps) {
+  // Remote images are hidden rather than shown broken when they fail to load
+  const [showFavicon, setShowFavicon] = useState(true);
+  const [showImage, setShowImage] = useState(true);
+
+  return (
+    <div className="flex items-start space-x-3 mb-2">
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center space-x-2">
+          {metadata.favicon && showFavicon && (
+            <img
+              src={metadata.favicon}
+              alt=""
+              className="w-4 h-4 flex-shrink-0"
+              referrerPolicy="no-referrer"
+              onError={() => setShowFavicon(false)}
+            />
+          )}
+          {metadata.siteName && (
+            <span className="text-slate-500 text-xs truncate">{metadata.siteName}</span>
+          )}
+        </div>
+        {metadata.title && (
+          <a
+            href={url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="block text-slate-900 font-medium hover:underline mt-1"
+          >
+            {metadata.title}
+          </a>
+        )}
+        {metadata.description && (
+          <p className="text-slate-600 text-sm mt-1 line-clamp-2">{metadata.description}</p>
+        )}
+      </div>
+      {metadata.image && showImage && (
+        <img
+          src={metadata.image}
+          alt=""
+          className="w-24 h-16 flex-shrink-0 rounded object-cover bg-slate-200"
+          loading="lazy"
+          referrerPolicy="no-referrer"
+          onError={() => setShowImage(false)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import type { ProcessingMode } from "@/hooks/use-processing-mode";
+
+interface ProcessingModeToggleProps {
+  value: ProcessingMode;
+  onChange: (mode: ProcessingMode) => void;
+  disabled?: boolean;
+}
+
+export default function ProcessingModeToggle({ value, onChange, disabled }: ProcessingModeToggleProps) {
+  return (
+    <div className="flex items-center space-x-3 p-4 bg-slate-50 rounded-lg">
+      <Switch
+        id="processing-mode"
+        checked={value === "local"}
+        onCheckedChange={(checked) => onChange(checked ? "local" : "server")}
+        disabled={disabled}
+      />
+      <div className="flex-1">
+        <Label htmlFor="processing-mode" className="font-medium">
+          Process files in this browser
+        </Label>
+        <p className="text-slate-500 text-sm">
+          {value === "local"
+            ? "Files never leave your device. Turn off to let the server do the work on slower devices."
+            : "Files are uploaded to the server for processing."}
+        </p>
+      </div>
+    </div>
+  );
+}
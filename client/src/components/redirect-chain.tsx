@@ -0,0 +1,81 @@
+import { useState } from "react";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { cn } from "@/lib/utils";
+import { ChevronRight } from "lucide-react";
+import type { RedirectHop } from "@shared/schema";
+
+interface RedirectChainProps {
+  hops: RedirectHop[];
+}
+
+const isUnwrap = (hop: RedirectHop) => hop.mechanism === "unwrap";
+
+// Redirects found in the page body rather than the response headers
+const isFromPage = (hop: RedirectHop) =>
+  hop.mechanism === "meta-refresh" || hop.mechanism === "javascript" || hop.mechanism === "canonical";
+
+const getStatusClass = (status: number | null) => {
+  if (status === null) return "bg-slate-200 text-slate-700";
+  if (status >= 300 && status < 400) return "bg-amber-100 text-amber-800";
+  if (status >= 200 && status < 300) return "bg-green-100 text-green-800";
+  return "bg-red-100 text-red-800";
+};
+
+export default function RedirectChain({ hops }: RedirectChainProps) {
+  const [open, setOpen] = useState(false);
+
+  if (hops.length === 0) return null;
+
+  const redirectCount = hops.filter(hop => isFromPage(hop) || isUnwrap(hop) || (hop.status !== null && hop.status >= 300 && hop.status < 400)).length;
+  const unwrapCount = hops.filter(isUnwrap).length;
+  const totalMs = hops.reduce((sum, hop) => sum + hop.durationMs, 0);
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="mt-2">
+      <CollapsibleTrigger className="flex items-center space-x-1 text-xs text-slate-500 hover:text-slate-700">
+        <ChevronRight className={cn("h-3 w-3 transition-transform", open && "rotate-90")} />
+        <span>
+          {redirectCount} redirect{redirectCount !== 1 ? "s" : ""} in {totalMs}ms
+        </span>
+        {unwrapCount > 0 && (
+          <span className="px-1.5 py-0.5 rounded bg-sky-100 text-sky-800" title="Decoded from the link itself, not fetched">
+            unwrapped
+          </span>
+        )}
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <ol className="mt-2 space-y-2 border-l-2 border-slate-200 pl-4">
+          {hops.map((hop, index) => (
+            <li key={index} className="text-xs">
+              <div className="flex items-center space-x-2">
+                {isUnwrap(hop) ? (
+                  <>
+                    <span className={cn("px-1.5 py-0.5 rounded font-mono font-semibold", getStatusClass(hop.status))}>
+                      unwrap
+                    </span>
+                    <span className="text-slate-500 font-mono">{hop.rule}</span>
+                  </>
+                ) : (
+                  <>
+                    <span className={cn("px-1.5 py-0.5 rounded font-mono font-semibold", getStatusClass(hop.status))}>
+                      {hop.status}
+                    </span>
+                    <span className="text-slate-500 font-mono">{hop.method}</span>
+                    {isFromPage(hop) && (
+                      <span className="px-1.5 py-0.5 rounded bg-violet-100 text-violet-800">{hop.mechanism}</span>
+                    )}
+                    <span className="text-slate-400">{hop.durationMs}ms</span>
+                  </>
+                )}
+              </div>
+              <p className="text-slate-700 font-mono break-all mt-1">{hop.url}</p>
+              {hop.location && (
+                <p className="text-slate-500 font-mono break-all">→ {hop.location}</p>
+              )}
+            </li>
+          ))}
+        </ol>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,15 @@
+import { Progress } from "@/components/ui/progress";
+import type { UploadProgress as Progressed } from "@/lib/upload";
+
+const toMegabytes = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+
+export default function UploadProgress({ progress }: { progress: Progressed }) {
+  return (
+    <div className="space-y-1">
+      <Progress value={(progress.loaded / progress.total) * 100} />
+      <p className="text-slate-500 text-xs">
+        {toMegabytes(progress.loaded)} of {toMegabytes(progress.total)} MB processed
+      </p>
+    </div>
+  );
+}
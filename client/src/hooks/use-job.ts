@@ -0,0 +1,92 @@
+import { useEffect, useRef, useState } from "react";
+import { apiRequest } from "@/lib/queryClient";
+import type { JobEvent, JobStatus } from "@shared/schema";
+
+interface UseJobOptions<Status extends JobStatus, Item, Result> {
+  onProgress?: (item: Item, job: Status) => void;
+  onDone?: (result: Result, job: Status) => void;
+  onError?: (error: Error) => void;
+}
+
+// Starts background jobs by POSTing to `path` and follows their progress
+// over the job's event stream, see server/jobs.ts
+export function useJob<Status extends JobStatus, Item, Result, Request = unknown>(
+  path: string,
+  { onProgress, onDone, onError }: UseJobOptions<Status, Item, Result> = {},
+) {
+  const [job, setJob] = useState<Status | null>(null);
+  const [result, setResult] = useState<Result | null>(null);
+  const sourceRef = useRef<EventSource | null>(null);
+
+  // Keep the latest callbacks without re-subscribing
+  const callbacksRef = useRef({ onProgress, onDone, onError });
+  callbacksRef.current = { onProgress, onDone, onError };
+
+  const closeStream = () => {
+    sourceRef.current?.close();
+    sourceRef.current = null;
+  };
+
+  useEffect(() => closeStream, []);
+
+  const subscribe = (jobId: string) => {
+    closeStream();
+    const source = new EventSource(`${path}/${jobId}/events`);
+    sourceRef.current = source;
+
+    const handleEvent = (message: MessageEvent) => {
+      const event: JobEvent<Status, Item, Result> = JSON.parse(message.data);
+      setJob(event.job);
+
+      if (event.type === "progress") {
+        callbacksRef.current.onProgress?.(event.item, event.job);
+      }
+
+      if (event.type === "done") {
+        closeStream();
+        setResult(event.result);
+        callbacksRef.current.onDone?.(event.result, event.job);
+      }
+    };
+
+    source.addEventListener("snapshot", handleEvent);
+    source.addEventListener("progress", handleEvent);
+    source.addEventListener("done", handleEvent);
+    source.onerror = () => {
+      // EventSource reconnects on its own unless the job is gone
+      if (source.readyState === EventSource.CLOSED) {
+        closeStream();
+        callbacksRef.current.onError?.(new Error("Lost connection to the job"));
+      }
+    };
+  };
+
+  const start = async (request: Request) => {
+    try {
+      setResult(null);
+      const response = await apiRequest("POST", path, request);
+      const created: Status = await response.json();
+      setJob(created);
+      subscribe(created.id);
+    } catch (error) {
+      callbacksRef.current.onError?.(error instanceof Error ? error : new Error("Failed to start job"));
+    }
+  };
+
+  const cancel = async () => {
+    if (!job) return;
+    try {
+      await apiRequest("DELETE", `${path}/${job.id}`);
+    } catch (error) {
+      callbacksRef.current.onError?.(error instanceof Error ? error : new Error("Failed to cancel job"));
+    }
+  };
+
+  return {
+    job,
+    result,
+    isRunning: job?.state === "running",
+    start,
+    cancel,
+  };
+}
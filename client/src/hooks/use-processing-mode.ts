@@ -0,0 +1,8 @@
+import { useLocalStorage } from "@/hooks/use-local-storage";
+
+// "local" runs the file tools in a Web Worker, "server" uploads the files
+export type ProcessingMode = "local" | "server";
+
+export function useProcessingMode() {
+  return useLocalStorage<ProcessingMode>("fileTools_processingMode", "local");
+}
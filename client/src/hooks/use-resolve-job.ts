@@ -0,0 +1,31 @@
+import { useQueryClient } from "@tanstack/react-query";
+import { useJob } from "@/hooks/use-job";
+import type { BatchResolveItem, BatchResolveResult, ResolveJobStatus, ResolvedUrl } from "@shared/schema";
+
+interface UseResolveJobOptions {
+  onDone?: (result: BatchResolveResult, job: ResolveJobStatus) => void;
+  onError?: (error: Error) => void;
+}
+
+export function useResolveJob({ onDone, onError }: UseResolveJobOptions = {}) {
+  const queryClient = useQueryClient();
+
+  const { start, ...rest } = useJob<ResolveJobStatus, BatchResolveItem, BatchResolveResult, { urls: string[] }>(
+    "/api/resolve-jobs",
+    {
+      onProgress: (item) => {
+        if (item.status === "resolved") {
+          const entry = item.result;
+          queryClient.setQueryData<ResolvedUrl[]>(["/api/resolved-urls"], (old = []) => [entry, ...old]);
+        }
+      },
+      onDone: (result, job) => {
+        queryClient.invalidateQueries({ queryKey: ["/api/resolved-urls"] });
+        onDone?.(result, job);
+      },
+      onError,
+    },
+  );
+
+  return { ...rest, start: (urls: string[]) => start({ urls }) };
+}
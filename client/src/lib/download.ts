@@ -0,0 +1,22 @@
+import { exportFilename, exportFormatDetails, exportLinks, type ExportFormat, type ExportLink } from "@shared/link-export";
+
+// Saves `content` through a temporary object URL and link click
+export function downloadText(content: string, filename: string, type: string) {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+// Returns the name the file was saved as, its extension follows the format
+export function downloadLinks(links: ExportLink[], format: ExportFormat, filename: string, title?: string): string {
+  const name = exportFilename(filename, format);
+  downloadText(exportLinks(links, format, title), name, exportFormatDetails[format].mimeType);
+  return name;
+}
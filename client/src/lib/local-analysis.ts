@@ -0,0 +1,45 @@
+import type { UploadProgress } from "@/lib/upload";
+import type { EquivalenceRule, InputOptions, SetOperation } from "@shared/schema";
+
+export type LocalAnalysisRequest =
+  | { kind: "analyze"; files: File[]; rules: EquivalenceRule[]; input: InputOptions }
+  | { kind: "merge"; files: File[]; rules: EquivalenceRule[]; input: InputOptions }
+  | { kind: "setOperation"; files: File[]; rules: EquivalenceRule[]; input: InputOptions; operation: SetOperation };
+
+export type LocalAnalysisMessage =
+  | { type: "progress"; loaded: number; total: number }
+  | { type: "result"; result: unknown }
+  | { type: "error"; message: string };
+
+// Runs the same analysis as the /upload endpoints in a Web Worker, so files
+// never leave the browser and the page stays responsive. Each call gets its
+// own worker, terminated once the result is in.
+export function analyzeLocally<T>(
+  request: LocalAnalysisRequest,
+  onProgress?: (progress: UploadProgress) => void,
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL("../workers/url-analysis.worker.ts", import.meta.url), { type: "module" });
+
+    worker.onmessage = (event: MessageEvent<LocalAnalysisMessage>) => {
+      const message = event.data;
+      if (message.type === "progress") {
+        onProgress?.({ loaded: message.loaded, total: message.total });
+        return;
+      }
+
+      worker.terminate();
+      if (message.type === "result") {
+        resolve(message.result as T);
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || "Local processing failed"));
+    };
+
+    worker.postMessage(request);
+  });
+}
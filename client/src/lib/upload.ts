@@ -0,0 +1,64 @@
+import { ApiError } from "@/lib/queryClient";
+import { getInputFormats, isSupportedInputFile } from "@shared/input-formats";
+
+export interface UploadProgress {
+  loaded: number;
+  total: number;
+}
+
+// Posts files as multipart/form-data. fetch cannot report upload progress,
+// so this goes through XMLHttpRequest. The server processes lines as they
+// arrive, so upload progress is also processing progress.
+export function uploadFiles<T>(
+  url: string,
+  files: File[],
+  onProgress?: (progress: UploadProgress) => void,
+): Promise<T> {
+  const form = new FormData();
+  files.forEach(file => form.append("files", file, file.name));
+
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", url);
+    xhr.withCredentials = true;
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onProgress?.({ loaded: event.loaded, total: event.total });
+      }
+    };
+
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        try {
+          resolve(JSON.parse(xhr.responseText));
+        } catch {
+          reject(new ApiError(xhr.status, `${xhr.status}: Invalid response`));
+        }
+      } else {
+        const text = xhr.responseText || xhr.statusText;
+        reject(new ApiError(xhr.status, `${xhr.status}: ${text}`));
+      }
+    };
+    xhr.onerror = () => reject(new Error("Upload failed, check your connection"));
+
+    xhr.send(form);
+  });
+}
+
+export function uploadUrl(path: string, params: Record<string, string | string[] | undefined>): string {
+  const search = new URLSearchParams();
+  Object.entries(params).forEach(([name, value]) => {
+    const text = Array.isArray(value) ? value.join(",") : value;
+    if (text) search.set(name, text);
+  });
+  const query = search.toString();
+  return query ? `${path}?${query}` : path;
+}
+
+// Every format the file tools read, optionally gzip compressed
+export const urlFileAccept = [...getInputFormats().flatMap(format => format.extensions), ".gz"].join(",");
+
+export function isUrlListFile(name: string): boolean {
+  return isSupportedInputFile(name);
+}
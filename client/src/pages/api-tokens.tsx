@@ -0,0 +1,211 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Copy, KeyRound, Plus, Trash2 } from "lucide-react";
+import type { CreatedApiToken, PublicApiToken, TokenScope } from "@shared/schema";
+
+const scopeDescriptions: Record<TokenScope, string> = {
+  read: "Read your resolved URLs",
+  resolve: "Read and resolve URLs",
+  admin: "Everything, including clearing the list and managing tokens",
+};
+
+export default function ApiTokens() {
+  const [name, setName] = useState("");
+  const [scope, setScope] = useState<TokenScope>("resolve");
+  const [createdToken, setCreatedToken] = useState<CreatedApiToken | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: tokens = [], isLoading } = useQuery<PublicApiToken[]>({
+    queryKey: ["/api/tokens"],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/tokens", { name: name.trim(), scope });
+      return response.json();
+    },
+    onSuccess: (token: CreatedApiToken) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tokens"] });
+      setCreatedToken(token);
+      setName("");
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create token",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("DELETE", `/api/tokens/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tokens"] });
+      toast({
+        title: "Token revoked",
+        description: "Requests using this token will now be rejected",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to revoke token",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyToken = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(token);
+      toast({
+        title: "Success",
+        description: "Token copied to clipboard",
+      });
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: "Failed to copy",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const formatDate = (value: string | Date | null) =>
+    value ? new Date(value).toLocaleString() : "Never";
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-slate-900">API Tokens</h1>
+        <p className="text-slate-600 mt-2">
+          Use a token from scripts with <code className="font-mono text-sm">Authorization: Bearer &lt;token&gt;</code>
+        </p>
+      </div>
+
+      {/* Create Token */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Create Token</CardTitle>
+          <CardDescription>Give the token a name you will recognise and the smallest scope it needs.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex space-x-3">
+            <div className="flex-1">
+              <Label htmlFor="token-name">Name</Label>
+              <Input
+                id="token-name"
+                placeholder="chat bot"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="mt-2"
+              />
+            </div>
+            <div className="w-48">
+              <Label htmlFor="token-scope">Scope</Label>
+              <Select value={scope} onValueChange={(value) => setScope(value as TokenScope)}>
+                <SelectTrigger id="token-scope" className="mt-2">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(scopeDescriptions) as TokenScope[]).map((value) => (
+                    <SelectItem key={value} value={value}>{value}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-end">
+              <Button
+                onClick={() => createMutation.mutate()}
+                disabled={!name.trim() || createMutation.isPending}
+                className="flex items-center space-x-2"
+              >
+                <Plus className="text-sm" />
+                <span>Create</span>
+              </Button>
+            </div>
+          </div>
+          <p className="text-slate-500 text-sm">{scopeDescriptions[scope]}</p>
+
+          {createdToken && (
+            <Alert className="border-green-200 bg-green-50">
+              <KeyRound className="h-4 w-4 text-green-600" />
+              <AlertDescription className="text-green-800 space-y-2">
+                <p>Copy your new token now. It will not be shown again.</p>
+                <div className="flex items-center space-x-2">
+                  <code className="flex-1 font-mono text-sm break-all bg-white p-2 rounded">{createdToken.token}</code>
+                  <Button
+                    onClick={() => copyToken(createdToken.token)}
+                    variant="ghost"
+                    size="sm"
+                    title="Copy to clipboard"
+                  >
+                    <Copy className="text-sm" />
+                  </Button>
+                </div>
+              </AlertDescription>
+            </Alert>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Token List */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Your Tokens</CardTitle>
+          <CardDescription>Revoked tokens stay listed so you can see when they were last used.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-slate-500 text-sm">Loading tokens...</p>
+          ) : tokens.length === 0 ? (
+            <p className="text-slate-500 text-sm">You have not created any tokens yet.</p>
+          ) : (
+            <div className="space-y-3">
+              {tokens.map((token) => (
+                <div key={token.id} className="flex items-center space-x-4 p-4 bg-slate-50 rounded-lg">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center space-x-2">
+                      <p className="text-slate-900 font-medium">{token.name}</p>
+                      <Badge variant="secondary">{token.scope}</Badge>
+                      {token.revokedAt && <Badge variant="destructive">revoked</Badge>}
+                    </div>
+                    <p className="text-slate-500 text-xs mt-1 font-mono">{token.tokenPrefix}…</p>
+                    <p className="text-slate-500 text-xs mt-1">
+                      Created {formatDate(token.createdAt)} · Last used {formatDate(token.lastUsedAt)}
+                    </p>
+                  </div>
+                  {!token.revokedAt && (
+                    <Button
+                      onClick={() => revokeMutation.mutate(token.id)}
+                      variant="ghost"
+                      size="sm"
+                      className="text-slate-400 hover:text-red-600"
+                      title="Revoke token"
+                    >
+                      <Trash2 className="text-sm" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Redirect } from "wouter";
+import { z } from "zod";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { insertUserSchema, type InsertUser } from "@shared/schema";
+
+// Existing accounts are not held to the current registration rules
+const loginSchema = z.object({
+  username: z.string().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+interface CredentialsFormProps {
+  schema: z.ZodType<InsertUser>;
+  submitLabel: string;
+  pendingLabel: string;
+  isPending: boolean;
+  onSubmit: (values: InsertUser) => void;
+}
+
+function CredentialsForm({ schema, submitLabel, pendingLabel, isPending, onSubmit }: CredentialsFormProps) {
+  const form = useForm<InsertUser>({
+    resolver: zodResolver(schema),
+    defaultValues: { username: "", password: "" },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="username"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Username</FormLabel>
+              <FormControl>
+                <Input autoComplete="username" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Password</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="current-password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full" disabled={isPending}>
+          {isPending ? pendingLabel : submitLabel}
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+export default function AuthPage() {
+  const { user, loginMutation, registerMutation } = useAuth();
+
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  return (
+    <div className="max-w-md mx-auto space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-slate-900">Sign In</h1>
+        <p className="text-slate-600 mt-2">Your resolved URLs are kept in your own account</p>
+      </div>
+
+      <Card>
+        <Tabs defaultValue="login">
+          <CardHeader>
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="login">Login</TabsTrigger>
+              <TabsTrigger value="register">Register</TabsTrigger>
+            </TabsList>
+          </CardHeader>
+          <CardContent>
+            <TabsContent value="login" className="space-y-4">
+              <CardTitle className="text-lg">Welcome back</CardTitle>
+              <CardDescription>Log in to see your resolved URLs.</CardDescription>
+              <CredentialsForm
+                schema={loginSchema}
+                submitLabel="Log In"
+                pendingLabel="Logging in..."
+                isPending={loginMutation.isPending}
+                onSubmit={(values) => loginMutation.mutate(values)}
+              />
+            </TabsContent>
+            <TabsContent value="register" className="space-y-4">
+              <CardTitle className="text-lg">Create an account</CardTitle>
+              <CardDescription>Pick a username and a password of at least 8 characters.</CardDescription>
+              <CredentialsForm
+                schema={insertUserSchema}
+                submitLabel="Register"
+                pendingLabel="Creating account..."
+                isPending={registerMutation.isPending}
+                onSubmit={(values) => registerMutation.mutate(values)}
+              />
+            </TabsContent>
+          </CardContent>
+        </Tabs>
+      </Card>
+    </div>
+  );
+}
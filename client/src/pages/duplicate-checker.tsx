@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useMutation } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { uploadFiles, uploadUrl, urlFileAccept, isUrlListFile, type UploadProgress as Progressed } from "@/lib/upload";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -9,27 +9,47 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
 import { useLocalStorage } from "@/hooks/use-local-storage";
-import { Upload, Download, FileText, Search, AlertTriangle } from "lucide-react";
-import type { FileAnalysis } from "@shared/schema";
+import NonUrlLines from "@/components/non-url-lines";
+import UploadProgress from "@/components/upload-progress";
+import ProcessingModeToggle from "@/components/processing-mode-toggle";
+import { useProcessingMode } from "@/hooks/use-processing-mode";
+import { analyzeLocally } from "@/lib/local-analysis";
+import EquivalenceRulePicker from "@/components/equivalence-rule-picker";
+import InputFormatPicker from "@/components/input-format-picker";
+import DuplicateReport from "@/components/duplicate-report";
+import ExportFormatPicker from "@/components/export-format-picker";
+import { downloadLinks, downloadText } from "@/lib/download";
+import { Upload, Download, FileText, Search, AlertTriangle, FileSpreadsheet } from "lucide-react";
+import { toCsv } from "@shared/csv";
+import { linksWithDetails, type ExportFormat } from "@shared/link-export";
+import type { EquivalenceRule, FileAnalysis, InputOptions } from "@shared/schema";
 
 export default function DuplicateChecker() {
   const [file, setFile] = useState<File | null>(null);
+  const [progress, setProgress] = useState<Progressed | null>(null);
+  const [processingMode, setProcessingMode] = useProcessingMode();
+  const [rules, setRules] = useLocalStorage<EquivalenceRule[]>("duplicateChecker_rules", []);
+  const [input, setInput] = useLocalStorage<InputOptions>("duplicateChecker_input", {});
   const [filename, setFilename] = useLocalStorage("duplicateChecker_filename", "cleaned-links.txt");
   const [preserveOrder, setPreserveOrder] = useLocalStorage("duplicateChecker_preserveOrder", true);
+  const [exportFormat, setExportFormat] = useLocalStorage<ExportFormat>("duplicateChecker_exportFormat", "text");
   const [analysis, setAnalysis] = useState<FileAnalysis | null>(null);
   const { toast } = useToast();
 
   const analyzeMutation = useMutation({
-    mutationFn: async (content: string) => {
-      const response = await apiRequest("POST", "/api/analyze-file", { content });
-      return response.json();
+    mutationFn: async ({ file, rules, input }: { file: File; rules: EquivalenceRule[]; input: InputOptions }) => {
+      setProgress(null);
+      if (processingMode === "local") {
+        return analyzeLocally<FileAnalysis>({ kind: "analyze", files: [file], rules, input }, setProgress);
+      }
+      return uploadFiles<FileAnalysis>(uploadUrl("/api/analyze-file/upload", { rules, ...input }), [file], setProgress);
     },
     onSuccess: (data: FileAnalysis) => {
       setAnalysis(data);
       if (data.duplicateLines > 0) {
         toast({
           title: "Analysis complete",
-          description: `Found ${data.duplicateLines} duplicate URLs out of ${data.totalLines} total lines`,
+          description: `Found ${data.duplicateLines} duplicate URLs out of ${data.totalUrls} total URLs`,
         });
       } else {
         toast({
@@ -51,116 +71,114 @@ export default function DuplicateChecker() {
     const uploadedFile = event.target.files?.[0];
     if (!uploadedFile) return;
 
-    if (!uploadedFile.name.toLowerCase().endsWith('.txt')) {
+    if (!isUrlListFile(uploadedFile.name)) {
       toast({
         title: "Invalid file type",
-        description: "Please upload a .txt file",
+        description: "Please upload a text, CSV, JSON, HTML, Markdown or bookmarks file",
         variant: "destructive",
       });
       return;
     }
 
     setFile(uploadedFile);
-    
-    try {
-      const content = await uploadedFile.text();
-      analyzeMutation.mutate(content);
-    } catch (error) {
-      toast({
-        title: "Error",
-        description: "Failed to read file",
-        variant: "destructive",
-      });
+    analyzeMutation.mutate({ file: uploadedFile, rules, input });
+  };
+
+  const changeRules = (next: EquivalenceRule[]) => {
+    setRules(next);
+    if (file) {
+      analyzeMutation.mutate({ file, rules: next, input });
+    }
+  };
+
+  const changeInput = (next: InputOptions) => {
+    setInput(next);
+    if (file) {
+      analyzeMutation.mutate({ file, rules, input: next });
     }
   };
 
   const downloadCleanedFile = () => {
-    if (!analysis || !file) return;
+    if (!analysis) return;
 
-    let content: string;
-    
-    if (preserveOrder) {
-      // Preserve original order, just remove duplicates
-      const lines = file.text().then(text => {
-        const allLines = text.split('\n').map(line => line.trim()).filter(line => line.length > 0);
-        const seen = new Set<string>();
-        const uniqueLines = allLines.filter(line => {
-          if (seen.has(line)) {
-            return false;
-          }
-          seen.add(line);
-          return true;
-        });
-        
-        const content = uniqueLines.join("\n");
-        const blob = new Blob([content], { type: "text/plain" });
-        const url = URL.createObjectURL(blob);
+    // The analysis lists URLs in the order they first appear
+    const urls = preserveOrder ? analysis.urls : [...analysis.urls].sort();
+    downloadLinks(linksWithDetails(urls, analysis.linkDetails), exportFormat, filename || "cleaned-links.txt", file?.name);
 
-        const a = document.createElement("a");
-        a.href = url;
-        a.download = filename || "cleaned-links.txt";
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
+    toast({
+      title: "Success",
+      description: `Downloaded ${urls.length} unique URLs`,
+    });
+  };
 
-        toast({
-          title: "Success",
-          description: `Downloaded ${uniqueLines.length} unique URLs`,
-        });
-      });
-    } else {
-      // Use sorted unique URLs from analysis
-      content = analysis.urls.join("\n");
-      const blob = new Blob([content], { type: "text/plain" });
-      const url = URL.createObjectURL(blob);
+  // One row per group, lines and variants joined so it opens cleanly in a spreadsheet
+  const downloadReport = () => {
+    if (!analysis) return;
 
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = filename || "cleaned-links.txt";
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+    const csv = toCsv(
+      ["kept_url", "occurrences", "variants", "first_line", "lines", "variant_urls"],
+      analysis.duplicateGroups.map(group => [
+        group.kept,
+        group.count,
+        group.variants.length,
+        group.occurrences[0].line,
+        group.occurrences.map(occurrence => occurrence.line).join(" "),
+        group.variants.join(" "),
+      ]),
+    );
+    downloadText(csv, `${(file?.name ?? "links").replace(/\.[^.]+(\.gz)?$/i, "")}-duplicates.csv`, "text/csv");
 
-      toast({
-        title: "Success",
-        description: `Downloaded ${analysis.uniqueLines} unique URLs`,
-      });
-    }
+    toast({
+      title: "Success",
+      description: `Exported ${analysis.duplicateGroups.length} duplicate groups`,
+    });
   };
 
   return (
     <div className="space-y-6">
       <div>
         <h1 className="text-3xl font-bold text-slate-900">TXT Duplicate Link Checker</h1>
-        <p className="text-slate-600 mt-2">Upload a .txt file to analyze and remove duplicate URLs</p>
+        <p className="text-slate-600 mt-2">Upload a list of links to analyze and remove duplicate URLs</p>
       </div>
 
       {/* File Upload Section */}
       <Card>
         <CardHeader>
-          <CardTitle>Upload TXT File</CardTitle>
+          <CardTitle>Upload File</CardTitle>
           <CardDescription>
-            Select a .txt file to analyze for duplicate URLs
+            Select a file to analyze for duplicate URLs
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
           <div className="border-2 border-dashed border-slate-300 rounded-lg p-8 text-center">
             <input
               type="file"
-              accept=".txt"
+              accept={urlFileAccept}
               onChange={handleFileUpload}
               className="hidden"
               id="file-upload"
             />
             <label htmlFor="file-upload" className="cursor-pointer">
               <Upload className="text-slate-400 text-3xl mx-auto mb-4" />
-              <p className="text-slate-600 font-medium">Click to upload a .txt file</p>
-              <p className="text-slate-500 text-sm mt-1">Only .txt files are supported</p>
+              <p className="text-slate-600 font-medium">Click to upload a file</p>
+              <p className="text-slate-500 text-sm mt-1">Text, CSV, JSON, HTML, Markdown or saved bookmarks, optionally .gz compressed</p>
             </label>
           </div>
 
+          <div className="p-4 bg-slate-50 rounded-lg">
+            <InputFormatPicker value={input} onChange={changeInput} disabled={analyzeMutation.isPending} />
+          </div>
+
+          <div className="p-4 bg-slate-50 rounded-lg space-y-3">
+            <div>
+              <p className="font-medium text-slate-900">Treat as duplicates</p>
+              <p className="text-slate-500 text-sm">With nothing selected only identical URLs are duplicates</p>
+            </div>
+            <EquivalenceRulePicker value={rules} onChange={changeRules} disabled={analyzeMutation.isPending} />
+          </div>
+
+          <ProcessingModeToggle value={processingMode} onChange={setProcessingMode} disabled={analyzeMutation.isPending} />
+
           {file && (
             <div className="flex items-center space-x-3 p-3 bg-slate-50 rounded-lg">
               <FileText className="text-slate-400 text-lg" />
@@ -176,6 +194,8 @@ export default function DuplicateChecker() {
               )}
             </div>
           )}
+
+          {analyzeMutation.isPending && progress && <UploadProgress progress={progress} />}
         </CardContent>
       </Card>
 
@@ -189,8 +209,8 @@ export default function DuplicateChecker() {
           <CardContent className="space-y-4">
             <div className="grid grid-cols-3 gap-4">
               <div className="text-center p-4 bg-blue-50 rounded-lg">
-                <p className="text-2xl font-bold text-blue-600">{analysis.totalLines}</p>
-                <p className="text-blue-800 text-sm font-medium">Total Lines</p>
+                <p className="text-2xl font-bold text-blue-600">{analysis.totalUrls}</p>
+                <p className="text-blue-800 text-sm font-medium">Total URLs</p>
               </div>
               <div className="text-center p-4 bg-green-50 rounded-lg">
                 <p className="text-2xl font-bold text-green-600">{analysis.uniqueLines}</p>
@@ -202,6 +222,8 @@ export default function DuplicateChecker() {
               </div>
             </div>
 
+            <NonUrlLines lines={analysis.nonUrlLines} total={analysis.nonUrlLineCount} />
+
             {analysis.duplicateLines > 0 && (
               <div className="space-y-4">
                 <Alert className="border-amber-200 bg-amber-50">
@@ -211,6 +233,22 @@ export default function DuplicateChecker() {
                   </AlertDescription>
                 </Alert>
 
+                <div className="flex items-center justify-between">
+                  <p className="font-medium text-slate-900">
+                    {analysis.duplicateGroups.length} duplicate {analysis.duplicateGroups.length === 1 ? "group" : "groups"}
+                  </p>
+                  <Button
+                    onClick={downloadReport}
+                    variant="outline"
+                    size="sm"
+                    className="flex items-center space-x-2"
+                  >
+                    <FileSpreadsheet className="text-sm" />
+                    <span>Export Report (CSV)</span>
+                  </Button>
+                </div>
+                <DuplicateReport groups={analysis.duplicateGroups} />
+
                 <div className="flex items-center space-x-3 p-4 bg-slate-50 rounded-lg">
                   <Switch
                     id="preserve-order"
@@ -239,6 +277,7 @@ export default function DuplicateChecker() {
                       className="mt-2"
                     />
                   </div>
+                  <ExportFormatPicker value={exportFormat} onChange={setExportFormat} />
                   <div className="flex items-end">
                     <Button
                       onClick={downloadCleanedFile}
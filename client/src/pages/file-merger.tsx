@@ -1,32 +1,66 @@
 import { useState } from "react";
 import { useMutation } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { uploadFiles, uploadUrl, urlFileAccept, isUrlListFile, type UploadProgress as Progressed } from "@/lib/upload";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
 import { useLocalStorage } from "@/hooks/use-local-storage";
-import { Upload, Download, FileText, Merge, X } from "lucide-react";
-import type { FileAnalysis } from "@shared/schema";
+import NonUrlLines from "@/components/non-url-lines";
+import UploadProgress from "@/components/upload-progress";
+import ProcessingModeToggle from "@/components/processing-mode-toggle";
+import { useProcessingMode } from "@/hooks/use-processing-mode";
+import { analyzeLocally } from "@/lib/local-analysis";
+import InputFormatPicker from "@/components/input-format-picker";
+import ExportFormatPicker from "@/components/export-format-picker";
+import { downloadLinks, downloadText } from "@/lib/download";
+import { Upload, Download, FileText, Merge, X, GitCompare, FileSpreadsheet } from "lucide-react";
+import { toCsv } from "@shared/csv";
+import { exportFilename, linksWithDetails, type ExportFormat } from "@shared/link-export";
+import type { FileMergeResult, InputOptions, SetOperation, SetOperationResult } from "@shared/schema";
+
+const operationLabels: Record<SetOperation, { title: string; description: string }> = {
+  union: { title: "Union", description: "Links found in any file" },
+  intersection: { title: "Intersection", description: "Links present in every file" },
+  difference: { title: "Difference", description: "Links in the chosen file but in none of the others" },
+  symmetricDifference: { title: "Unique to each file", description: "Links that appear in exactly one file" },
+};
+
+type MergerMode = "merge" | "compare";
 
 export default function FileMerger() {
   const [files, setFiles] = useState<File[]>([]);
   const [filename, setFilename] = useLocalStorage("fileMerger_filename", "merged-links.txt");
-  const [mergeResult, setMergeResult] = useState<FileAnalysis | null>(null);
+  const [mergeResult, setMergeResult] = useState<FileMergeResult | null>(null);
+  const [mode, setMode] = useLocalStorage<MergerMode>("fileMerger_mode", "merge");
+  const [operation, setOperation] = useLocalStorage<SetOperation>("fileMerger_operation", "intersection");
+  // File the difference is taken from, the others are subtracted from it
+  const [baseIndex, setBaseIndex] = useState(0);
+  const [setResult, setSetResult] = useState<SetOperationResult | null>(null);
+  const [progress, setProgress] = useState<Progressed | null>(null);
+  const [processingMode, setProcessingMode] = useProcessingMode();
+  const [input, setInput] = useLocalStorage<InputOptions>("fileMerger_input", {});
+  const [exportFormat, setExportFormat] = useLocalStorage<ExportFormat>("fileMerger_exportFormat", "text");
   const { toast } = useToast();
 
   const mergeMutation = useMutation({
-    mutationFn: async (fileContents: string[]) => {
-      const response = await apiRequest("POST", "/api/merge-files", { files: fileContents });
-      return response.json();
+    mutationFn: async (uploads: File[]) => {
+      setProgress(null);
+      if (processingMode === "local") {
+        return analyzeLocally<FileMergeResult>({ kind: "merge", files: uploads, rules: [], input }, setProgress);
+      }
+      return uploadFiles<FileMergeResult>(uploadUrl("/api/merge-files/upload", input), uploads, setProgress);
     },
-    onSuccess: (data: FileAnalysis) => {
+    onSuccess: (data: FileMergeResult) => {
       setMergeResult(data);
       toast({
         title: "Files merged successfully",
-        description: `Found ${data.uniqueLines} unique URLs from ${data.totalLines} total lines`,
+        description: `Found ${data.uniqueLines} unique URLs from ${data.totalUrls} total URLs`,
       });
     },
     onError: (error: any) => {
@@ -38,29 +72,57 @@ export default function FileMerger() {
     },
   });
 
+  const setOperationMutation = useMutation({
+    mutationFn: async ({ operation, uploads }: { operation: SetOperation; uploads: File[] }) => {
+      setProgress(null);
+      if (processingMode === "local") {
+        return analyzeLocally<SetOperationResult>({ kind: "setOperation", files: uploads, rules: [], input, operation }, setProgress);
+      }
+      return uploadFiles<SetOperationResult>(uploadUrl("/api/set-operation/upload", { operation, ...input }), uploads, setProgress);
+    },
+    onSuccess: (data: SetOperationResult) => {
+      setSetResult(data);
+      toast({
+        title: "Comparison complete",
+        description: `${data.urls.length} links match "${operationLabels[data.operation].title}"`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to compare files",
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const uploadedFiles = Array.from(event.target.files || []);
-    const txtFiles = uploadedFiles.filter(file => file.name.toLowerCase().endsWith('.txt'));
+    const linkFiles = uploadedFiles.filter(file => isUrlListFile(file.name));
     
-    if (txtFiles.length !== uploadedFiles.length) {
+    if (linkFiles.length !== uploadedFiles.length) {
       toast({
         title: "Warning",
-        description: "Only .txt files are supported",
+        description: "Only text, CSV, JSON, HTML, Markdown and bookmarks files are supported",
         variant: "destructive",
       });
     }
     
-    setFiles(prev => [...prev, ...txtFiles]);
+    setFiles(prev => [...prev, ...linkFiles]);
   };
 
   const removeFile = (index: number) => {
     setFiles(prev => prev.filter((_, i) => i !== index));
+    setBaseIndex(current => (current === index ? 0 : current > index ? current - 1 : current));
     if (files.length === 1) {
       setMergeResult(null);
     }
+    if (files.length <= 2) {
+      setSetResult(null);
+    }
   };
 
-  const handleMerge = async () => {
+  const handleMerge = () => {
     if (files.length === 0) {
       toast({
         title: "Error",
@@ -70,34 +132,63 @@ export default function FileMerger() {
       return;
     }
 
-    try {
-      const fileContents = await Promise.all(
-        files.map(file => file.text())
-      );
-      mergeMutation.mutate(fileContents);
-    } catch (error) {
+    mergeMutation.mutate(files);
+  };
+
+  const handleCompare = () => {
+    if (files.length < 2) {
       toast({
         title: "Error",
-        description: "Failed to read files",
+        description: "Please upload at least two files to compare",
         variant: "destructive",
       });
+      return;
     }
+
+    // The API subtracts the other files from the first one
+    const ordered = operation === "difference"
+      ? [files[baseIndex], ...files.filter((_, i) => i !== baseIndex)]
+      : files;
+    setOperationMutation.mutate({ operation, uploads: ordered });
   };
 
-  const downloadMergedFile = () => {
+  const downloadSetResult = () => {
+    if (!setResult) return;
+
+    const links = setResult.urls.map(entry => ({ url: entry.url }));
+    downloadLinks(links, exportFormat, filename || "merged-links.txt", operationLabels[setResult.operation].title);
+
+    toast({
+      title: "Success",
+      description: `Downloaded ${setResult.urls.length} URLs`,
+    });
+  };
+
+  const downloadSourcesCsv = () => {
     if (!mergeResult) return;
 
-    const content = mergeResult.urls.join("\n");
-    const blob = new Blob([content], { type: "text/plain" });
-    const url = URL.createObjectURL(blob);
+    const names = mergeResult.files.map(file => file.name);
+    const csv = toCsv(
+      ["url", "sources", "first_file", "first_line"],
+      mergeResult.sources.map(entry => [
+        entry.url,
+        entry.sources.map(source => names[source]).join("; "),
+        names[entry.firstSeen.file ?? 0],
+        entry.firstSeen.line,
+      ]),
+    );
+    downloadText(csv, exportFilename(filename || "merged-links.txt", "csv"), "text/csv");
+
+    toast({
+      title: "Success",
+      description: `Exported ${mergeResult.sources.length} URLs with their sources`,
+    });
+  };
+
+  const downloadMergedFile = () => {
+    if (!mergeResult) return;
 
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = filename || "merged-links.txt";
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    downloadLinks(linksWithDetails(mergeResult.urls, mergeResult.linkDetails), exportFormat, filename || "merged-links.txt", "Merged links");
 
     toast({
       title: "Success",
@@ -109,15 +200,15 @@ export default function FileMerger() {
     <div className="space-y-6">
       <div>
         <h1 className="text-3xl font-bold text-slate-900">TXT File Merger</h1>
-        <p className="text-slate-600 mt-2">Upload multiple .txt files and merge them into one unique set of URLs</p>
+        <p className="text-slate-600 mt-2">Upload multiple link lists and merge them into one unique set of URLs</p>
       </div>
 
       {/* File Upload Section */}
       <Card>
         <CardHeader>
-          <CardTitle>Upload TXT Files</CardTitle>
+          <CardTitle>Upload Files</CardTitle>
           <CardDescription>
-            Select multiple .txt files to merge. Duplicate URLs will be automatically removed.
+            Select multiple files to merge. Duplicate URLs will be automatically removed.
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -125,15 +216,15 @@ export default function FileMerger() {
             <input
               type="file"
               multiple
-              accept=".txt"
+              accept={urlFileAccept}
               onChange={handleFileUpload}
               className="hidden"
               id="file-upload"
             />
             <label htmlFor="file-upload" className="cursor-pointer">
               <Upload className="text-slate-400 text-3xl mx-auto mb-4" />
-              <p className="text-slate-600 font-medium">Click to upload .txt files</p>
-              <p className="text-slate-500 text-sm mt-1">You can select multiple files at once</p>
+              <p className="text-slate-600 font-medium">Click to upload files</p>
+              <p className="text-slate-500 text-sm mt-1">Text, CSV, JSON, HTML, Markdown or saved bookmarks, optionally .gz compressed</p>
             </label>
           </div>
 
@@ -162,19 +253,153 @@ export default function FileMerger() {
             </div>
           )}
 
-          <Button
-            onClick={handleMerge}
-            disabled={files.length === 0 || mergeMutation.isPending}
-            className="w-full flex items-center space-x-2"
-          >
-            <Merge className="text-sm" />
-            <span>{mergeMutation.isPending ? "Merging..." : "Merge Files"}</span>
-          </Button>
+          <div className="p-4 bg-slate-50 rounded-lg">
+            <InputFormatPicker
+              value={input}
+              onChange={setInput}
+              disabled={mergeMutation.isPending || setOperationMutation.isPending}
+            />
+          </div>
+
+          <ProcessingModeToggle
+            value={processingMode}
+            onChange={setProcessingMode}
+            disabled={mergeMutation.isPending || setOperationMutation.isPending}
+          />
+
+          <Tabs value={mode} onValueChange={(value) => setMode(value as MergerMode)}>
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="merge">Merge</TabsTrigger>
+              <TabsTrigger value="compare">Set Operations</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="merge">
+              <Button
+                onClick={handleMerge}
+                disabled={files.length === 0 || mergeMutation.isPending}
+                className="w-full flex items-center space-x-2"
+              >
+                <Merge className="text-sm" />
+                <span>{mergeMutation.isPending ? "Merging..." : "Merge Files"}</span>
+              </Button>
+            </TabsContent>
+
+            <TabsContent value="compare" className="space-y-4">
+              <div className="flex space-x-3">
+                <div className="flex-1">
+                  <Label>Operation</Label>
+                  <Select value={operation} onValueChange={(value) => setOperation(value as SetOperation)}>
+                    <SelectTrigger className="mt-2">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(operationLabels) as SetOperation[]).map((value) => (
+                        <SelectItem key={value} value={value}>{operationLabels[value].title}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {operation === "difference" && files.length > 0 && (
+                  <div className="flex-1">
+                    <Label>Keep links from</Label>
+                    <Select value={String(baseIndex)} onValueChange={(value) => setBaseIndex(Number(value))}>
+                      <SelectTrigger className="mt-2">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {files.map((file, index) => (
+                          <SelectItem key={index} value={String(index)}>{file.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+              <p className="text-slate-500 text-sm">{operationLabels[operation].description}</p>
+              <Button
+                onClick={handleCompare}
+                disabled={files.length < 2 || setOperationMutation.isPending}
+                className="w-full flex items-center space-x-2"
+              >
+                <GitCompare className="text-sm" />
+                <span>{setOperationMutation.isPending ? "Comparing..." : "Compare Files"}</span>
+              </Button>
+            </TabsContent>
+          </Tabs>
+
+          {(mergeMutation.isPending || setOperationMutation.isPending) && progress && <UploadProgress progress={progress} />}
         </CardContent>
       </Card>
 
+      {/* Set Operation Results */}
+      {mode === "compare" && setResult && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{operationLabels[setResult.operation].title}</CardTitle>
+            <CardDescription>{setResult.urls.length} links in the result</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              {setResult.files.map((file, index) => (
+                <div key={index} className="flex items-center justify-between p-3 bg-slate-50 rounded-lg text-sm">
+                  <span className="text-slate-900 font-medium">{file.name}</span>
+                  <span className="text-slate-600">
+                    {file.kept} of {file.urls} unique links in the result
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex space-x-3">
+              <div className="flex-1">
+                <Label htmlFor="set-filename">Output Filename</Label>
+                <Input
+                  id="set-filename"
+                  type="text"
+                  value={filename}
+                  onChange={(e) => setFilename(e.target.value)}
+                  placeholder="merged-links.txt"
+                  className="mt-2"
+                />
+              </div>
+              <ExportFormatPicker id="set-export-format" value={exportFormat} onChange={setExportFormat} />
+              <div className="flex items-end">
+                <Button
+                  onClick={downloadSetResult}
+                  disabled={setResult.urls.length === 0}
+                  className="flex items-center space-x-2"
+                >
+                  <Download className="text-sm" />
+                  <span>Download Result</span>
+                </Button>
+              </div>
+            </div>
+
+            {setResult.urls.length > 0 && (
+              <div className="space-y-2 max-h-80 overflow-y-auto">
+                {setResult.urls.slice(0, 100).map((entry, index) => (
+                  <div key={index} className="flex items-start space-x-3 p-2 bg-slate-50 rounded text-sm">
+                    <span className="text-slate-900 font-mono break-all flex-1">{entry.url}</span>
+                    <div className="flex flex-wrap gap-1 justify-end">
+                      {entry.sources.map(source => (
+                        <Badge key={source} variant="secondary">{setResult.files[source].name}</Badge>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+                {setResult.urls.length > 100 && (
+                  <p className="text-slate-500 text-sm text-center py-2">
+                    ... and {setResult.urls.length - 100} more URLs
+                  </p>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Merge Results */}
-      {mergeResult && (
+      {mode === "merge" && mergeResult && (
         <Card>
           <CardHeader>
             <CardTitle>Merge Results</CardTitle>
@@ -183,8 +408,8 @@ export default function FileMerger() {
           <CardContent className="space-y-4">
             <div className="grid grid-cols-3 gap-4">
               <div className="text-center p-4 bg-blue-50 rounded-lg">
-                <p className="text-2xl font-bold text-blue-600">{mergeResult.totalLines}</p>
-                <p className="text-blue-800 text-sm font-medium">Total Lines</p>
+                <p className="text-2xl font-bold text-blue-600">{mergeResult.totalUrls}</p>
+                <p className="text-blue-800 text-sm font-medium">Total URLs</p>
               </div>
               <div className="text-center p-4 bg-green-50 rounded-lg">
                 <p className="text-2xl font-bold text-green-600">{mergeResult.uniqueLines}</p>
@@ -196,6 +421,22 @@ export default function FileMerger() {
               </div>
             </div>
 
+            <div className="space-y-2">
+              <h3 className="font-medium text-slate-900">Contribution by File</h3>
+              {mergeResult.files.map((file, index) => (
+                <div key={index} className="flex items-center justify-between p-3 bg-slate-50 rounded-lg text-sm">
+                  <span className="text-slate-900 font-medium">{file.name}</span>
+                  <div className="flex space-x-4 text-slate-600">
+                    <span>{file.urls} unique</span>
+                    <span className="text-green-700">{file.new} new</span>
+                    <span className="text-slate-500">{file.alreadySeen} already seen</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <NonUrlLines lines={mergeResult.nonUrlLines} total={mergeResult.nonUrlLineCount} fileNames={mergeResult.files.map(file => file.name)} />
+
             <div className="space-y-4">
               <div className="flex space-x-3">
                 <div className="flex-1">
@@ -209,6 +450,7 @@ export default function FileMerger() {
                     className="mt-2"
                   />
                 </div>
+                <ExportFormatPicker value={exportFormat} onChange={setExportFormat} />
                 <div className="flex items-end">
                   <Button
                     onClick={downloadMergedFile}
@@ -218,6 +460,16 @@ export default function FileMerger() {
                     <span>Download Merged File</span>
                   </Button>
                 </div>
+                <div className="flex items-end">
+                  <Button
+                    onClick={downloadSourcesCsv}
+                    variant="outline"
+                    className="flex items-center space-x-2"
+                  >
+                    <FileSpreadsheet className="text-sm" />
+                    <span>Export CSV with Sources</span>
+                  </Button>
+                </div>
               </div>
 
               <Alert className="border-green-200 bg-green-50">
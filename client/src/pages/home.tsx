@@ -3,16 +3,28 @@ import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import RedirectChain from "@/components/redirect-chain";
+import PagePreview from "@/components/page-preview";
 import { useToast } from "@/hooks/use-toast";
-import { Link, Copy, Download, Clipboard, ExternalLink, Save, Shield } from "lucide-react";
+import { useResolveJob } from "@/hooks/use-resolve-job";
+import { useLocalStorage } from "@/hooks/use-local-storage";
+import ExportFormatPicker from "@/components/export-format-picker";
+import { downloadLinks } from "@/lib/download";
+import type { ExportFormat } from "@shared/link-export";
+import { Link, Copy, Download, Clipboard, ExternalLink, Save, Shield, ListChecks, X } from "lucide-react";
 import type { ResolvedUrl } from "@shared/schema";
 
 export default function Home() {
   const [urlInput, setUrlInput] = useState("");
   const [filename, setFilename] = useState("");
+  const [exportFormat, setExportFormat] = useLocalStorage<ExportFormat>("home_exportFormat", "text");
+  const [batchInput, setBatchInput] = useState("");
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -27,12 +39,12 @@ export default function Home() {
       const response = await apiRequest("POST", "/api/resolve-url", { url });
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (data: { cached: boolean }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/resolved-urls"] });
       setUrlInput("");
       toast({
         title: "Success",
-        description: "URL resolved successfully!",
+        description: data.cached ? "URL resolved from cache!" : "URL resolved successfully!",
       });
     },
     onError: (error: any) => {
@@ -54,6 +66,23 @@ export default function Home() {
     },
   });
 
+  // Batch resolve job, streamed from the server
+  const resolveJob = useResolveJob({
+    onDone: (result, job) => {
+      toast({
+        title: job.state === "cancelled" ? "Batch cancelled" : "Batch complete",
+        description: `Resolved ${result.resolved}, ${result.duplicates} duplicates, ${result.failed} failed`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to resolve URLs",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Clear URLs mutation
   const clearUrlsMutation = useMutation({
     mutationFn: async () => {
@@ -91,6 +120,17 @@ export default function Home() {
     }
   };
 
+  const handleResolveBatch = () => {
+    const urls = batchInput
+      .split("\n")
+      .map(line => line.trim())
+      .filter(line => line.length > 0);
+    if (urls.length > 0) {
+      resolveJob.start(urls);
+      setBatchInput("");
+    }
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === "Enter" && urlInput.trim()) {
       handleResolveUrl();
@@ -123,19 +163,15 @@ export default function Home() {
       return;
     }
 
-    const downloadFilename = filename.trim() || "links.txt";
-    const content = resolvedUrls.map(link => link.resolvedUrl).join("\n");
-
-    const blob = new Blob([content], { type: "text/plain" });
-    const url = URL.createObjectURL(blob);
-
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = downloadFilename;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    const links = resolvedUrls.map(link => ({
+      url: link.resolvedUrl,
+      originalUrl: link.originalUrl,
+      title: link.metadata?.title,
+      timestamp: link.timestamp,
+      // Hops like unwrapped tracking links made no request and have no status
+      status: [...link.redirectChain].reverse().find(hop => hop.status !== null)?.status,
+    }));
+    downloadLinks(links, exportFormat, filename.trim() || "links.txt", "Resolved links");
 
     // Clear the list and localStorage immediately after download
     clearUrlsMutation.mutate();
@@ -150,6 +186,12 @@ export default function Home() {
     });
   };
 
+  const formatDuration = (ms: number) => {
+    const seconds = Math.ceil(ms / 1000);
+    if (seconds < 60) return `${seconds}s`;
+    return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+  };
+
   const getTimeAgo = (timestamp: string | Date) => {
     const now = new Date();
     const time = new Date(timestamp);
@@ -221,13 +263,84 @@ export default function Home() {
           </CardContent>
         </Card>
 
+        {/* Batch Input Section */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Resolve a List</CardTitle>
+            <CardDescription>
+              Paste many URLs, one per line, and resolve them all in a single request.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Textarea
+              placeholder="https://bit.ly/first&#10;https://t.co/second&#10;..."
+              value={batchInput}
+              onChange={(e) => setBatchInput(e.target.value)}
+              className="min-h-[120px] font-mono text-sm"
+            />
+            <Button
+              onClick={handleResolveBatch}
+              disabled={!batchInput.trim() || resolveJob.isRunning}
+              className="flex items-center space-x-2"
+            >
+              <ListChecks className="text-sm" />
+              <span>{resolveJob.isRunning ? "Resolving..." : "Resolve All"}</span>
+            </Button>
+
+            {resolveJob.job && (
+              <div className="space-y-2 p-4 bg-slate-50 rounded-lg">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-slate-700 font-medium">
+                    {resolveJob.job.completed} of {resolveJob.job.total} processed
+                  </span>
+                  {resolveJob.isRunning ? (
+                    <Button
+                      onClick={resolveJob.cancel}
+                      variant="ghost"
+                      size="sm"
+                      className="text-slate-500 hover:text-red-600"
+                    >
+                      <X className="text-sm" />
+                      <span>Cancel</span>
+                    </Button>
+                  ) : (
+                    <span className="text-slate-500 capitalize">{resolveJob.job.state}</span>
+                  )}
+                </div>
+                <Progress value={(resolveJob.job.completed / resolveJob.job.total) * 100} />
+                <div className="flex space-x-4 text-xs text-slate-500">
+                  <span className="text-green-700">{resolveJob.job.resolved} resolved</span>
+                  <span className="text-amber-700">{resolveJob.job.duplicates} duplicates</span>
+                  <span className="text-red-700">{resolveJob.job.failed} failed</span>
+                  {resolveJob.isRunning && resolveJob.job.etaMs !== null && (
+                    <span>about {formatDuration(resolveJob.job.etaMs)} left</span>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {resolveJob.result && resolveJob.result.failed + resolveJob.result.duplicates > 0 && (
+              <div className="space-y-2 max-h-60 overflow-y-auto">
+                {resolveJob.result.items.map((item, index) => (item.status === "failed" || item.status === "duplicate") && (
+                  <div key={index} className="p-2 bg-slate-50 rounded text-sm">
+                    <p className="text-slate-900 font-mono break-all">{item.url}</p>
+                    <p className={item.status === "failed" ? "text-red-600 text-xs" : "text-amber-600 text-xs"}>
+                      {item.status === "failed" ? item.error : `Already in list as ${item.canonicalUrl}`}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Resolved Links Display */}
         <Card>
           <CardHeader>
             <div className="flex items-center justify-between">
               <div>
                 <CardTitle>Resolved URLs</CardTitle>
-                <CardDescription>Your resolved links are automatically saved locally</CardDescription>
+                <CardDescription>Your resolved links are saved to your account</CardDescription>
               </div>
               <div className="bg-primary/10 text-primary px-3 py-1 rounded-full text-sm font-medium">
                 {resolvedUrls.length} URLs
@@ -266,10 +379,24 @@ export default function Home() {
                       {index + 1}
                     </div>
                     <div className="flex-1 min-w-0">
+                      {link.metadata && <PagePreview metadata={link.metadata} url={link.resolvedUrl} />}
                       <p className="text-slate-900 font-mono text-sm break-all">{link.resolvedUrl}</p>
+                      {link.driftedUrl && (
+                        <div className="flex items-center space-x-2 mt-1">
+                          <Badge
+                            variant="outline"
+                            className="border-amber-300 bg-amber-50 text-amber-800"
+                            title={`Noticed ${getTimeAgo(link.driftedAt!)}`}
+                          >
+                            Destination changed
+                          </Badge>
+                          <p className="text-amber-700 font-mono text-xs break-all">now {link.driftedUrl}</p>
+                        </div>
+                      )}
                       <p className="text-slate-500 text-xs mt-1">
                         Resolved {getTimeAgo(link.timestamp)}
                       </p>
+                      <RedirectChain hops={link.redirectChain} />
                     </div>
                     <Button
                       onClick={() => copyToClipboard(link.resolvedUrl)}
@@ -292,7 +419,7 @@ export default function Home() {
           <CardHeader>
             <CardTitle>Export to File</CardTitle>
             <CardDescription>
-              Download all resolved URLs as a text file. The list will be cleared after download.
+              Download all resolved URLs as a file. The list will be cleared after download.
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
@@ -308,6 +435,7 @@ export default function Home() {
                   className="mt-2"
                 />
               </div>
+              <ExportFormatPicker value={exportFormat} onChange={setExportFormat} />
               <div className="flex items-end">
                 <Button
                   onClick={downloadResolvedUrls}
@@ -345,8 +473,8 @@ export default function Home() {
                 <div className="bg-primary/10 rounded-lg p-3 w-12 h-12 mx-auto mb-3 flex items-center justify-center">
                   <Save className="text-primary text-lg" />
                 </div>
-                <h3 className="font-semibold text-slate-900 mb-2">Local Storage</h3>
-                <p className="text-slate-600 text-sm">Your resolved URLs are saved locally and persist across browser sessions</p>
+                <h3 className="font-semibold text-slate-900 mb-2">Saved to Your Account</h3>
+                <p className="text-slate-600 text-sm">Your resolved URLs are stored with your account and available wherever you sign in</p>
               </div>
 
               <div className="text-center">
@@ -354,7 +482,7 @@ export default function Home() {
                   <Shield className="text-primary text-lg" />
                 </div>
                 <h3 className="font-semibold text-slate-900 mb-2">Privacy First</h3>
-                <p className="text-slate-600 text-sm">Everything runs in your browser - no data is sent to external servers</p>
+                <p className="text-slate-600 text-sm">The file tools run in your browser by default - your lists never leave your device</p>
               </div>
             </div>
           </CardContent>
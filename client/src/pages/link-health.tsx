@@ -0,0 +1,328 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useJob } from "@/hooks/use-job";
+import { useLocalStorage } from "@/hooks/use-local-storage";
+import { useProcessingMode } from "@/hooks/use-processing-mode";
+import { uploadFiles, uploadUrl, urlFileAccept, isUrlListFile } from "@/lib/upload";
+import { analyzeLocally } from "@/lib/local-analysis";
+import InputFormatPicker from "@/components/input-format-picker";
+import ProcessingModeToggle from "@/components/processing-mode-toggle";
+import ExportFormatPicker from "@/components/export-format-picker";
+import { downloadLinks } from "@/lib/download";
+import type { ExportFormat } from "@shared/link-export";
+import { cn } from "@/lib/utils";
+import { Upload, Download, HeartPulse, ListChecks, X } from "lucide-react";
+import type { FileAnalysis, InputOptions, HealthCheckRequest, HealthCheckResult, HealthCheckItem, HealthJobStatus, LinkHealth } from "@shared/schema";
+
+type HealthFilter = "all" | "broken" | "changed" | "ok";
+
+const filterLabels: Record<HealthFilter, string> = {
+  all: "All links",
+  broken: "Broken, timed out or failed",
+  changed: "Destination changed",
+  ok: "Working",
+};
+
+const healthClasses: Record<LinkHealth, string> = {
+  ok: "bg-green-100 text-green-800",
+  broken: "bg-red-100 text-red-800",
+  timeout: "bg-amber-100 text-amber-800",
+  error: "bg-slate-200 text-slate-800",
+  cancelled: "bg-slate-100 text-slate-500",
+};
+
+const isBroken = (item: HealthCheckItem) => item.health === "broken" || item.health === "timeout" || item.health === "error";
+const brokenCount = (counts: { broken: number; timeout: number; error: number }) => counts.broken + counts.timeout + counts.error;
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.ceil(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+const matchesFilter = (item: HealthCheckItem, filter: HealthFilter) => {
+  if (filter === "broken") return isBroken(item);
+  if (filter === "changed") return item.changed === true;
+  if (filter === "ok") return item.health === "ok";
+  return true;
+};
+
+export default function LinkHealth() {
+  const [source, setSource] = useState<string | null>(null);
+  const [filter, setFilter] = useState<HealthFilter>("all");
+  const [exportFormat, setExportFormat] = useLocalStorage<ExportFormat>("linkHealth_exportFormat", "text");
+  const [input, setInput] = useLocalStorage<InputOptions>("linkHealth_input", {});
+  const [processingMode, setProcessingMode] = useProcessingMode();
+  const [reading, setReading] = useState(false);
+  const { toast } = useToast();
+
+  // Links are checked in a background job, streamed from the server
+  const healthJob = useJob<HealthJobStatus, HealthCheckItem, HealthCheckResult, HealthCheckRequest>("/api/health-jobs", {
+    onDone: (data, job) => {
+      setFilter(brokenCount(data) > 0 ? "broken" : "all");
+      toast({
+        title: job.state === "cancelled" ? "Check cancelled" : "Check complete",
+        description: `${data.ok} working, ${brokenCount(data)} broken, ${data.changed} changed destination`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to check links",
+        variant: "destructive",
+      });
+    },
+  });
+  const result = healthJob.result;
+  const busy = reading || healthJob.isRunning;
+
+  const checkStored = () => {
+    setSource("your resolved URLs");
+    healthJob.start({ source: "stored" });
+  };
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const uploadedFile = event.target.files?.[0];
+    event.target.value = "";
+    if (!uploadedFile) return;
+
+    if (!isUrlListFile(uploadedFile.name)) {
+      toast({
+        title: "Invalid file type",
+        description: "Please upload a text, CSV, JSON, HTML, Markdown or bookmarks file",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setReading(true);
+    try {
+      // Read like the other file tools, the check only needs the unique URLs
+      const analysis = processingMode === "local"
+        ? await analyzeLocally<FileAnalysis>({ kind: "analyze", files: [uploadedFile], rules: [], input })
+        : await uploadFiles<FileAnalysis>(uploadUrl("/api/analyze-file/upload", input), [uploadedFile]);
+      const { urls } = analysis;
+      if (urls.length === 0) {
+        toast({
+          title: "Empty file",
+          description: "The file does not contain any URLs",
+          variant: "destructive",
+        });
+        return;
+      }
+      setSource(uploadedFile.name);
+      healthJob.start({ source: "urls", urls });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to read file",
+        variant: "destructive",
+      });
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const downloadBroken = () => {
+    if (!result) return;
+    const broken = result.items.filter(isBroken);
+
+    const links = broken.map(item => ({
+      url: item.url,
+      status: item.status,
+      finalUrl: item.finalUrl,
+    }));
+    downloadLinks(links, exportFormat, "broken-links.txt", "Broken links");
+
+    toast({
+      title: "Success",
+      description: `Downloaded ${broken.length} broken URLs`,
+    });
+  };
+
+  const visibleItems = result ? result.items.filter(item => matchesFilter(item, filter)) : [];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-slate-900">Link Health</h1>
+        <p className="text-slate-600 mt-2">Find links that stopped working or now lead somewhere else</p>
+      </div>
+
+      {/* Source Section */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Choose Links</CardTitle>
+          <CardDescription>
+            Check every URL in your resolved list, or upload a file containing URLs
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <button
+              type="button"
+              onClick={checkStored}
+              disabled={busy}
+              className="border-2 border-dashed border-slate-300 rounded-lg p-8 text-center hover:border-primary disabled:opacity-50"
+            >
+              <ListChecks className="text-slate-400 text-3xl mx-auto mb-4" />
+              <p className="text-slate-600 font-medium">Check your resolved URLs</p>
+              <p className="text-slate-500 text-sm mt-1">Compares each destination with the stored one</p>
+            </button>
+            <div className="border-2 border-dashed border-slate-300 rounded-lg p-8 text-center hover:border-primary">
+              <input
+                type="file"
+                accept={urlFileAccept}
+                onChange={handleFileUpload}
+                className="hidden"
+                id="health-file-upload"
+                disabled={busy}
+              />
+              <label htmlFor="health-file-upload" className="cursor-pointer">
+                <Upload className="text-slate-400 text-3xl mx-auto mb-4" />
+                <p className="text-slate-600 font-medium">Upload a file</p>
+                <p className="text-slate-500 text-sm mt-1">Text, CSV, JSON, HTML, Markdown or saved bookmarks, optionally .gz compressed</p>
+              </label>
+            </div>
+          </div>
+
+          <div className="p-4 bg-slate-50 rounded-lg">
+            <InputFormatPicker value={input} onChange={setInput} disabled={busy} />
+          </div>
+
+          <ProcessingModeToggle value={processingMode} onChange={setProcessingMode} disabled={busy} />
+
+          {reading && (
+            <div className="flex items-center space-x-2 text-slate-600">
+              <div className="animate-spin rounded-full h-4 w-4 border-2 border-primary border-t-transparent"></div>
+              <span className="text-sm">Reading links...</span>
+            </div>
+          )}
+
+          {healthJob.job && (
+            <div className="space-y-2 p-4 bg-slate-50 rounded-lg">
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-slate-700 font-medium">
+                  {healthJob.job.completed} of {healthJob.job.total} links in {source} checked
+                </span>
+                {healthJob.isRunning ? (
+                  <Button
+                    onClick={healthJob.cancel}
+                    variant="ghost"
+                    size="sm"
+                    className="text-slate-500 hover:text-red-600"
+                  >
+                    <X className="text-sm" />
+                    <span>Cancel</span>
+                  </Button>
+                ) : (
+                  <span className="text-slate-500 capitalize">{healthJob.job.state}</span>
+                )}
+              </div>
+              <Progress value={healthJob.job.total > 0 ? (healthJob.job.completed / healthJob.job.total) * 100 : 100} />
+              <div className="flex space-x-4 text-xs text-slate-500">
+                <span className="text-green-700">{healthJob.job.ok} working</span>
+                <span className="text-red-700">{brokenCount(healthJob.job)} broken</span>
+                <span className="text-amber-700">{healthJob.job.changed} changed</span>
+                {healthJob.isRunning && healthJob.job.etaMs !== null && (
+                  <span>about {formatDuration(healthJob.job.etaMs)} left</span>
+                )}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Results Section */}
+      {result && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Results</CardTitle>
+            <CardDescription>
+              {source} checked {new Date(result.checkedAt).toLocaleString()}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-4 gap-4">
+              <div className="text-center p-4 bg-blue-50 rounded-lg">
+                <p className="text-2xl font-bold text-blue-600">{result.total}</p>
+                <p className="text-blue-800 text-sm font-medium">Checked</p>
+              </div>
+              <div className="text-center p-4 bg-green-50 rounded-lg">
+                <p className="text-2xl font-bold text-green-600">{result.ok}</p>
+                <p className="text-green-800 text-sm font-medium">Working</p>
+              </div>
+              <div className="text-center p-4 bg-red-50 rounded-lg">
+                <p className="text-2xl font-bold text-red-600">{brokenCount(result)}</p>
+                <p className="text-red-800 text-sm font-medium">Broken</p>
+              </div>
+              <div className="text-center p-4 bg-amber-50 rounded-lg">
+                <p className="text-2xl font-bold text-amber-600">{result.changed}</p>
+                <p className="text-amber-800 text-sm font-medium">Changed</p>
+              </div>
+            </div>
+
+            <div className="flex items-end space-x-3">
+              <Select value={filter} onValueChange={(value) => setFilter(value as HealthFilter)}>
+                <SelectTrigger className="w-72">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(filterLabels) as HealthFilter[]).map((value) => (
+                    <SelectItem key={value} value={value}>{filterLabels[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex-1" />
+              <ExportFormatPicker value={exportFormat} onChange={setExportFormat} />
+              <Button
+                onClick={downloadBroken}
+                disabled={brokenCount(result) === 0}
+                className="flex items-center space-x-2"
+              >
+                <Download className="text-sm" />
+                <span>Download Broken Links</span>
+              </Button>
+            </div>
+
+            {visibleItems.length === 0 ? (
+              <div className="text-center py-8">
+                <HeartPulse className="text-slate-400 text-4xl mx-auto mb-4" />
+                <p className="text-slate-500 text-sm">No links match this filter.</p>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {visibleItems.map((item, index) => (
+                  <div key={index} className="flex items-start space-x-3 p-3 bg-slate-50 rounded-lg text-sm">
+                    <span className={cn("px-1.5 py-0.5 rounded text-xs font-semibold w-16 text-center", healthClasses[item.health])}>
+                      {item.health}
+                    </span>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-slate-900 font-mono break-all">{item.url}</p>
+                      {item.error && <p className="text-red-600 text-xs mt-1">{item.error}</p>}
+                      {item.changed && (
+                        <p className="text-amber-700 text-xs font-mono break-all mt-1">
+                          {item.previousUrl} → {item.finalUrl}
+                        </p>
+                      )}
+                    </div>
+                    {item.changed && <Badge variant="secondary">changed</Badge>}
+                    <span className="text-slate-500 font-mono text-xs w-10 text-right">{item.status ?? "—"}</span>
+                    <span className="text-slate-400 text-xs w-16 text-right">
+                      {item.latencyMs !== null ? `${item.latencyMs}ms` : ""}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -7,17 +7,19 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
 import { useLocalStorage } from "@/hooks/use-local-storage";
+import NonUrlLines from "@/components/non-url-lines";
+import ExportFormatPicker from "@/components/export-format-picker";
+import { downloadLinks } from "@/lib/download";
 import { FileText, Download, Type, CheckCircle } from "lucide-react";
+import { analyzeTexts } from "@shared/url-analysis";
+import type { ExportFormat } from "@shared/link-export";
+import type { FileAnalysis } from "@shared/schema";
 
 export default function TextToFile() {
   const [textInput, setTextInput] = useLocalStorage("textToFile_input", "");
   const [filename, setFilename] = useLocalStorage("textToFile_filename", "urls.txt");
-  const [analysis, setAnalysis] = useState<{
-    totalLines: number;
-    uniqueLines: number;
-    duplicateLines: number;
-    urls: string[];
-  } | null>(null);
+  const [exportFormat, setExportFormat] = useLocalStorage<ExportFormat>("textToFile_exportFormat", "text");
+  const [analysis, setAnalysis] = useState<FileAnalysis | null>(null);
   const { toast } = useToast();
 
   const analyzeText = () => {
@@ -30,40 +32,19 @@ export default function TextToFile() {
       return;
     }
 
-    const lines = textInput
-      .split('\n')
-      .map(line => line.trim())
-      .filter(line => line.length > 0);
-    
-    const uniqueLines = Array.from(new Set(lines));
-    
-    setAnalysis({
-      totalLines: lines.length,
-      uniqueLines: uniqueLines.length,
-      duplicateLines: lines.length - uniqueLines.length,
-      urls: uniqueLines
-    });
+    const result = analyzeTexts([textInput]);
+    setAnalysis(result);
 
     toast({
       title: "Analysis complete",
-      description: `Found ${uniqueLines.length} unique URLs from ${lines.length} total lines`,
+      description: `Found ${result.uniqueLines} unique URLs in ${result.totalLines} lines`,
     });
   };
 
   const downloadFile = () => {
     if (!analysis) return;
 
-    const content = analysis.urls.join("\n");
-    const blob = new Blob([content], { type: "text/plain" });
-    const url = URL.createObjectURL(blob);
-
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = filename || "urls.txt";
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    downloadLinks(analysis.urls.map(url => ({ url })), exportFormat, filename || "urls.txt");
 
     toast({
       title: "Success",
@@ -93,7 +74,7 @@ export default function TextToFile() {
         <CardHeader>
           <CardTitle>Enter URLs</CardTitle>
           <CardDescription>
-            Paste or type URLs, one per line. Duplicates will be automatically removed.
+            Paste a list of URLs or any text containing them, such as an email or markdown. Duplicates will be automatically removed.
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -107,7 +88,7 @@ export default function TextToFile() {
               className="mt-2 min-h-[200px] font-mono text-sm"
             />
             <p className="text-slate-500 text-sm mt-2">
-              Enter one URL per line. Empty lines will be ignored.
+              URLs are picked out of each line. Lines without a URL are listed separately.
             </p>
           </div>
 
@@ -170,6 +151,7 @@ export default function TextToFile() {
                     className="mt-2"
                   />
                 </div>
+                <ExportFormatPicker value={exportFormat} onChange={setExportFormat} />
                 <div className="flex items-end">
                   <Button
                     onClick={downloadFile}
@@ -189,6 +171,8 @@ export default function TextToFile() {
               </Alert>
             </div>
 
+            <NonUrlLines lines={analysis.nonUrlLines} />
+
             {/* Preview of cleaned URLs */}
             {analysis.urls.length > 0 && (
               <Card className="bg-slate-50">
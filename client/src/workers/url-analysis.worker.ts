@@ -0,0 +1,96 @@
+import { createInputParser, InputFormatError } from "@shared/input-formats";
+import { LineSplitter } from "@shared/line-splitter";
+import { UrlAnalyzer } from "@shared/url-analysis";
+import { summarizeMerge, summarizeSetOperation } from "@shared/set-operations";
+import type { LocalAnalysisMessage, LocalAnalysisRequest } from "@/lib/local-analysis";
+
+// Same bounds as the server defaults, see `uploads` in server/config.ts
+const MAX_LINE_LENGTH = 64 * 1024;
+const MAX_DOCUMENT_LENGTH = 16 * 1024 * 1024;
+const MAX_NON_URL_LINES = 1000;
+
+// The DOM lib types `self` as a Window, these are the worker members used here
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<LocalAnalysisRequest>) => void) | null;
+  postMessage(message: LocalAnalysisMessage): void;
+};
+
+async function readFile(
+  file: File,
+  maxLineLength: number,
+  onBytes: (bytes: number) => void,
+  onLine: (text: string, line: number) => void,
+) {
+  // Count bytes before decompression so progress matches the file sizes
+  let stream: ReadableStream<Uint8Array> = file.stream().pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        onBytes(chunk.byteLength);
+        controller.enqueue(chunk);
+      },
+    }),
+  );
+  if (/\.gz$/i.test(file.name)) {
+    stream = stream.pipeThrough(new DecompressionStream("gzip"));
+  }
+
+  const reader = stream.pipeThrough(new TextDecoderStream()).getReader();
+  const splitter = new LineSplitter(maxLineLength);
+  let line = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    splitter.push(value).forEach(text => onLine(text, ++line));
+  }
+  splitter.end().forEach(text => onLine(text, ++line));
+}
+
+async function run(request: LocalAnalysisRequest) {
+  const analyzer = new UrlAnalyzer(request.rules, MAX_NON_URL_LINES);
+  const total = request.files.reduce((sum, file) => sum + file.size, 0);
+  let loaded = 0;
+  let reported = 0;
+
+  for (let index = 0; index < request.files.length; index++) {
+    const file = request.files[index];
+    const fileIndex = request.kind === "analyze" ? undefined : index;
+    try {
+      const parser = createInputParser(file.name, request.input, MAX_DOCUMENT_LENGTH);
+      // A document line cut at the limit overflows the parser's own limit and fails
+      await readFile(
+        file,
+        parser.readsDocument ? MAX_DOCUMENT_LENGTH : MAX_LINE_LENGTH,
+        (bytes) => {
+          loaded += bytes;
+          // Messages are cheap but not free, report about every percent
+          if (loaded - reported >= total / 100) {
+            reported = loaded;
+            scope.postMessage({ type: "progress", loaded, total });
+          }
+        },
+        (text, line) => parser.push(text, line).forEach(record => analyzer.addRecord(record, fileIndex)),
+      );
+      parser.end().forEach(record => analyzer.addRecord(record, fileIndex));
+    } catch (error) {
+      // Same wording as the server, see server/uploads.ts
+      if (error instanceof InputFormatError) throw new Error(`${file.name}: ${error.message}`);
+      throw new Error(/\.gz$/i.test(file.name) ? `${file.name} is not valid gzip` : `Failed to read ${file.name}`);
+    }
+  }
+  scope.postMessage({ type: "progress", loaded: total, total });
+
+  const names = request.files.map(file => file.name);
+  if (request.kind === "analyze") return analyzer.result();
+  if (request.kind === "merge") return summarizeMerge(analyzer, names);
+  if (names.length < 2) throw new Error("At least two files are required");
+  return summarizeSetOperation(analyzer, names, request.operation);
+}
+
+scope.onmessage = (event) => {
+  run(event.data)
+    .then(result => scope.postMessage({ type: "result", result }))
+    .catch((error: unknown) => {
+      scope.postMessage({ type: "error", message: error instanceof Error ? error.message : "Local processing failed" });
+    });
+};
@@ -0,0 +1,7 @@
+CREATE TABLE "resolved_urls" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"original_url" text NOT NULL,
+	"resolved_url" text NOT NULL,
+	"redirect_chain" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"timestamp" timestamp DEFAULT now() NOT NULL
+);
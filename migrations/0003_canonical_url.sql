@@ -0,0 +1,4 @@
+ALTER TABLE "resolved_urls" ADD COLUMN "canonical_url" text;--> statement-breakpoint
+UPDATE "resolved_urls" SET "canonical_url" = "resolved_url";--> statement-breakpoint
+ALTER TABLE "resolved_urls" ALTER COLUMN "canonical_url" SET NOT NULL;--> statement-breakpoint
+CREATE INDEX "resolved_urls_user_canonical_idx" ON "resolved_urls" USING btree ("user_id","canonical_url");
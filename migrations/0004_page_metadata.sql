@@ -0,0 +1 @@
+ALTER TABLE "resolved_urls" ADD COLUMN "metadata" jsonb;
\ No newline at end of file
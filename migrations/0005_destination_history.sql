@@ -0,0 +1,15 @@
+CREATE TABLE "url_destinations" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"resolved_url_id" integer NOT NULL,
+	"resolved_url" text NOT NULL,
+	"canonical_url" text NOT NULL,
+	"first_seen_at" timestamp NOT NULL,
+	"last_seen_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "resolved_urls" ADD COLUMN "last_checked_at" timestamp;--> statement-breakpoint
+ALTER TABLE "resolved_urls" ADD COLUMN "drifted_url" text;--> statement-breakpoint
+ALTER TABLE "resolved_urls" ADD COLUMN "drifted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "url_destinations" ADD CONSTRAINT "url_destinations_resolved_url_id_resolved_urls_id_fk" FOREIGN KEY ("resolved_url_id") REFERENCES "public"."resolved_urls"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "url_destinations_resolved_url_idx" ON "url_destinations" USING btree ("resolved_url_id");--> statement-breakpoint
+CREATE INDEX "resolved_urls_last_checked_idx" ON "resolved_urls" USING btree ("last_checked_at");
\ No newline at end of file
@@ -0,0 +1,7 @@
+-- Keep the oldest entry of each destination stored more than once before the index was unique
+DELETE FROM "resolved_urls" AS "duplicate" USING "resolved_urls" AS "kept"
+WHERE "duplicate"."user_id" = "kept"."user_id"
+  AND "duplicate"."canonical_url" = "kept"."canonical_url"
+  AND "duplicate"."id" > "kept"."id";--> statement-breakpoint
+DROP INDEX "resolved_urls_user_canonical_idx";--> statement-breakpoint
+CREATE UNIQUE INDEX "resolved_urls_user_canonical_idx" ON "resolved_urls" USING btree ("user_id","canonical_url");
\ No newline at end of file
@@ -0,0 +1,255 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { scrypt, randomBytes, timingSafeEqual, createHash } from "crypto";
+import { promisify } from "util";
+import { z } from "zod";
+import { storage } from "./storage";
+import { config } from "./config";
+import {
+  insertUserSchema,
+  createApiTokenSchema,
+  tokenScopes,
+  type User as SelectUser,
+  type PublicUser,
+  type ApiToken,
+  type PublicApiToken,
+  type CreatedApiToken,
+  type TokenScope,
+} from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+    // Set when the request was authenticated with an API token
+    interface AuthInfo {
+      tokenId?: number;
+      scope?: TokenScope;
+    }
+  }
+}
+
+const TOKEN_PREFIX = "urlm_";
+// Skip writing lastUsedAt again for a token used within this window
+const TOKEN_TOUCH_INTERVAL_MS = 60 * 1000;
+
+const scryptAsync = promisify(scrypt);
+
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+async function comparePasswords(supplied: string, stored: string) {
+  const [hashed, salt] = stored.split(".");
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+export function toPublicUser({ password, ...user }: SelectUser): PublicUser {
+  return user;
+}
+
+function toPublicApiToken({ tokenHash, ...token }: ApiToken): PublicApiToken {
+  return token;
+}
+
+function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Authentication required" });
+  }
+  next();
+}
+
+// Session logins may do everything; API tokens only what their scope allows
+export function requireScope(scope: TokenScope) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+
+    const tokenScope = req.authInfo?.scope;
+    if (tokenScope && tokenScopes.indexOf(tokenScope) < tokenScopes.indexOf(scope)) {
+      return res.status(403).json({ message: `This API token needs the "${scope}" scope` });
+    }
+    next();
+  };
+}
+
+// Server administration, for the users listed in ADMIN_USERS. Tokens still
+// need the "admin" scope.
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  requireScope("admin")(req, res, () => {
+    if (!config.admins.includes(req.user!.username)) {
+      return res.status(403).json({ message: "Administrator access required" });
+    }
+    next();
+  });
+}
+
+// Authenticates `Authorization: Bearer <token>` requests. A header with an
+// unknown or revoked token is rejected outright instead of falling back to
+// the session, so scripts get a clear error.
+async function authenticateBearer(req: Request, res: Response, next: NextFunction) {
+  const header = req.headers.authorization;
+  if (!header?.startsWith("Bearer ")) return next();
+
+  try {
+    const token = await storage.getApiTokenByHash(hashToken(header.slice("Bearer ".length).trim()));
+    const user = token && !token.revokedAt ? await storage.getUser(token.userId) : undefined;
+    if (!token || !user) {
+      return res.status(401).json({ message: "Invalid or revoked API token" });
+    }
+
+    const now = new Date();
+    if (!token.lastUsedAt || now.getTime() - token.lastUsedAt.getTime() > TOKEN_TOUCH_INTERVAL_MS) {
+      await storage.touchApiToken(token.id, now);
+    }
+
+    req.user = user;
+    req.authInfo = { tokenId: token.id, scope: token.scope };
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+// Expects the session middleware to be installed already, see server/index.ts
+export function setupAuth(app: Express) {
+  app.use(passport.initialize());
+  app.use(passport.session());
+  app.use(authenticateBearer);
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      // A session for a user that no longer exists is simply logged out
+      const user = await storage.getUser(id);
+      done(null, user ?? false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/register", async (req, res, next) => {
+    try {
+      const { username, password } = insertUserSchema.parse(req.body);
+
+      const existingUser = await storage.getUserByUsername(username);
+      if (existingUser) {
+        return res.status(400).json({ message: "Username already exists" });
+      }
+
+      const user = await storage.createUser({
+        username,
+        password: await hashPassword(password),
+      });
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          message: error.errors[0]?.message ?? "Invalid registration details",
+          errors: error.errors
+        });
+      } else {
+        next(error);
+      }
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (err: unknown, user: SelectUser | false) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ message: "Invalid username or password" });
+      }
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      res.sendStatus(200);
+    });
+  });
+
+  app.get("/api/tokens", requireScope("admin"), async (req, res, next) => {
+    try {
+      const tokens = await storage.getApiTokens(req.user!.id);
+      res.json(tokens.map(toPublicApiToken));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/tokens", requireScope("admin"), async (req, res, next) => {
+    try {
+      const { name, scope } = createApiTokenSchema.parse(req.body);
+
+      const token = TOKEN_PREFIX + randomBytes(32).toString("base64url");
+      const created = await storage.createApiToken({
+        userId: req.user!.id,
+        name,
+        scope,
+        tokenHash: hashToken(token),
+        tokenPrefix: token.slice(0, TOKEN_PREFIX.length + 6),
+      });
+
+      const response: CreatedApiToken = { ...toPublicApiToken(created), token };
+      res.status(201).json(response);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          message: error.errors[0]?.message ?? "Invalid token details",
+          errors: error.errors
+        });
+      } else {
+        next(error);
+      }
+    }
+  });
+
+  app.delete("/api/tokens/:id", requireScope("admin"), async (req, res, next) => {
+    try {
+      const token = await storage.revokeApiToken(req.user!.id, Number(req.params.id));
+      if (!token) {
+        return res.status(404).json({ message: "Token not found" });
+      }
+      res.json(toPublicApiToken(token));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/user", requireAuth, (req, res) => {
+    res.json(toPublicUser(req.user!));
+  });
+}
@@ -0,0 +1,169 @@
+import { storage } from "./storage";
+import { resolveUrl, ResolveError } from "./resolver";
+import {
+  urlResolveSchema,
+  type BatchResolveItem,
+  type BatchResolveResult,
+  type ResolverPolicyOverride,
+} from "@shared/schema";
+
+export interface BatchOptions {
+  concurrency: number;
+  hostDelayMs: number;
+  signal?: AbortSignal;
+  policy?: ResolverPolicyOverride;
+}
+
+export function hostOf(url: string): string {
+  try {
+    return new URL(url).host.toLowerCase();
+  } catch {
+    return "";
+  }
+}
+
+// Runs `worker` over every item with at most `concurrency` tasks in flight,
+// never more than one per host, and waits `hostDelayMs` between two tasks
+// against the same host. Results keep the order of `items`. Once `signal`
+// aborts, the remaining items are handed to `worker` without throttling, so
+// workers are expected to check the signal and return early.
+export function runBatch<T, R>(
+  items: T[],
+  getHost: (item: T) => string,
+  worker: (item: T, index: number) => Promise<R>,
+  options: BatchOptions,
+): Promise<R[]> {
+  return new Promise((resolve, reject) => {
+    const results: R[] = new Array(items.length);
+    const pending = items.map((_, index) => index);
+    const busyHosts = new Set<string>();
+    const nextAllowedAt = new Map<string, number>();
+    let running = 0;
+    let completed = 0;
+    let failed = false;
+    let timer: NodeJS.Timeout | undefined;
+
+    const start = (index: number, host: string) => {
+      running++;
+      busyHosts.add(host);
+      worker(items[index], index)
+        .then((result) => {
+          results[index] = result;
+          running--;
+          completed++;
+          busyHosts.delete(host);
+          nextAllowedAt.set(host, Date.now() + options.hostDelayMs);
+          schedule();
+        })
+        .catch((error) => {
+          failed = true;
+          if (timer) clearTimeout(timer);
+          reject(error);
+        });
+    };
+
+    const schedule = () => {
+      if (failed) return;
+      if (completed === items.length) {
+        resolve(results);
+        return;
+      }
+
+      const now = Date.now();
+      let earliest = Infinity;
+      for (let i = 0; i < pending.length && (running < options.concurrency || options.signal?.aborted); ) {
+        const index = pending[i];
+        const host = getHost(items[index]);
+        const allowedAt = nextAllowedAt.get(host) ?? 0;
+
+        if (options.signal?.aborted) {
+          pending.splice(i, 1);
+          start(index, host);
+        } else if (busyHosts.has(host)) {
+          i++;
+        } else if (allowedAt > now) {
+          earliest = Math.min(earliest, allowedAt);
+          i++;
+        } else {
+          pending.splice(i, 1);
+          start(index, host);
+        }
+      }
+
+      // Wake up again once a host that is cooling down becomes available
+      if (timer) clearTimeout(timer);
+      timer = undefined;
+      if (running < options.concurrency && earliest !== Infinity) {
+        timer = setTimeout(() => {
+          timer = undefined;
+          schedule();
+        }, earliest - now);
+      }
+    };
+
+    options.signal?.addEventListener("abort", () => schedule(), { once: true });
+    schedule();
+  });
+}
+
+export async function resolveBatch(
+  userId: number,
+  urls: string[],
+  options: BatchOptions,
+  onItem?: (item: BatchResolveItem, index: number) => void,
+): Promise<BatchResolveResult> {
+  const { signal, policy } = options;
+
+  const resolveItem = async (url: string): Promise<BatchResolveItem> => {
+    if (signal?.aborted) {
+      return { url, status: "cancelled" };
+    }
+
+    const parsed = urlResolveSchema.shape.url.safeParse(url);
+    if (!parsed.success) {
+      return { url, status: "failed", error: parsed.error.errors[0]?.message ?? "Invalid URL format" };
+    }
+
+    try {
+      const { resolvedUrl, canonicalUrl, redirectChain, metadata, cached, outcome } = await resolveUrl(url, { signal, policy });
+
+      const result = await storage.resolveAndStoreUrl(userId, {
+        originalUrl: url,
+        resolvedUrl,
+        canonicalUrl,
+        redirectChain,
+        metadata,
+      });
+      // Already in the list, possibly stored a moment ago by another item
+      if (!result) {
+        return { url, status: "duplicate", resolvedUrl, canonicalUrl, redirectChain, cached, outcome };
+      }
+      return { url, status: "resolved", result, cached, outcome };
+    } catch (error) {
+      if (signal?.aborted) {
+        return { url, status: "cancelled" };
+      }
+      return {
+        url,
+        status: "failed",
+        error: error instanceof Error ? error.message : "Failed to resolve URL",
+        outcome: error instanceof ResolveError ? error.outcome : undefined,
+      };
+    }
+  };
+
+  const items = await runBatch(urls, hostOf, async (url, index) => {
+    const item = await resolveItem(url);
+    onItem?.(item, index);
+    return item;
+  }, options);
+
+  return {
+    total: items.length,
+    resolved: items.filter(item => item.status === "resolved").length,
+    duplicates: items.filter(item => item.status === "duplicate").length,
+    failed: items.filter(item => item.status === "failed").length,
+    cancelled: items.filter(item => item.status === "cancelled").length,
+    items,
+  };
+}
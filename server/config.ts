@@ -0,0 +1,145 @@
+import { DEFAULT_TRACKING_PARAMS, type CanonicalizeOptions } from "@shared/canonicalize";
+import { resolverPolicySchema } from "@shared/schema";
+
+function intFromEnv(name: string, fallback: number): number {
+  const value = process.env[name];
+  if (value === undefined || value.trim() === "") return fallback;
+
+  const parsed = Number.parseInt(value, 10);
+  if (Number.isNaN(parsed)) {
+    throw new Error(`${name} must be an integer, got "${value}"`);
+  }
+  return parsed;
+}
+
+function listFromEnv(name: string, fallback: string[]): string[] {
+  const value = process.env[name];
+  if (value === undefined || value.trim() === "") return fallback;
+  return value.split(",").map(item => item.trim()).filter(item => item.length > 0);
+}
+
+function boolFromEnv(name: string, fallback: boolean): boolean {
+  const value = process.env[name];
+  if (value === undefined || value.trim() === "") return fallback;
+  return ["1", "true", "yes", "on"].includes(value.trim().toLowerCase());
+}
+
+// Reads `--name=value` or `--name value` from the command line
+function argFromCli(name: string): string | undefined {
+  const args = process.argv.slice(2);
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === `--${name}`) return args[i + 1];
+    if (args[i].startsWith(`--${name}=`)) return args[i].slice(name.length + 3);
+  }
+  return undefined;
+}
+
+export const config = {
+  storage: {
+    // "memory", "file" or "postgres", from --storage or STORAGE_BACKEND;
+    // defaults to postgres whenever a database is configured
+    backend: argFromCli("storage") ?? process.env.STORAGE_BACKEND ?? (process.env.DATABASE_URL ? "postgres" : "memory"),
+    filePath: argFromCli("storage-file") ?? process.env.STORAGE_FILE ?? "data/urls.json",
+    databaseUrl: process.env.DATABASE_URL,
+    migrateOnStart: boolFromEnv("DB_MIGRATE_ON_START", true),
+  },
+  // Usernames allowed to use the /api/admin endpoints
+  admins: listFromEnv("ADMIN_USERS", []),
+  session: {
+    // Without SESSION_SECRET a random one is generated per process, which logs
+    // everyone out on restart; see server/index.ts
+    secret: process.env.SESSION_SECRET,
+    maxAgeMs: intFromEnv("SESSION_MAX_AGE_MS", 30 * 24 * 60 * 60 * 1000),
+  },
+  batch: {
+    // Upper bound on URLs accepted by a single batch request
+    maxUrls: intFromEnv("BATCH_MAX_URLS", 1000),
+    defaultConcurrency: intFromEnv("BATCH_CONCURRENCY", 4),
+    maxConcurrency: intFromEnv("BATCH_MAX_CONCURRENCY", 16),
+    // Minimum gap between two requests to the same host
+    hostDelayMs: intFromEnv("BATCH_HOST_DELAY_MS", 500),
+  },
+  uploads: {
+    maxFiles: intFromEnv("UPLOAD_MAX_FILES", 20),
+    // Per file as sent, gzip input is limited again after decompression
+    maxFileBytes: intFromEnv("UPLOAD_MAX_FILE_MB", 200) * 1024 * 1024,
+    maxUncompressedBytes: intFromEnv("UPLOAD_MAX_UNCOMPRESSED_MB", 1024) * 1024 * 1024,
+    // Longer lines are cut short rather than buffered
+    maxLineLength: intFromEnv("UPLOAD_MAX_LINE_LENGTH", 64 * 1024),
+    // JSON and HTML files are read whole, and so is a quoted CSV field
+    // spanning lines; this bounds what is held in memory for them
+    maxDocumentBytes: intFromEnv("UPLOAD_MAX_DOCUMENT_MB", 16) * 1024 * 1024,
+    // Lines without a URL beyond this are counted but not returned
+    maxNonUrlLines: intFromEnv("UPLOAD_MAX_NON_URL_LINES", 1000),
+  },
+  canonicalization: {
+    stripTrackingParams: boolFromEnv("CANONICAL_STRIP_TRACKING_PARAMS", true),
+    // CANONICAL_TRACKING_PARAMS adds to the built-in list, CANONICAL_KEEP_PARAMS removes from it
+    trackingParams: [
+      ...DEFAULT_TRACKING_PARAMS.filter(param => !listFromEnv("CANONICAL_KEEP_PARAMS", []).includes(param)),
+      ...listFromEnv("CANONICAL_TRACKING_PARAMS", []),
+    ],
+    stripTrailingSlash: boolFromEnv("CANONICAL_STRIP_TRAILING_SLASH", true),
+    dropFragment: boolFromEnv("CANONICAL_DROP_FRAGMENT", true),
+    sortQuery: boolFromEnv("CANONICAL_SORT_QUERY", true),
+  } satisfies CanonicalizeOptions,
+  // Validated so a bad deployment setting fails at startup, not per request
+  resolverPolicy: resolverPolicySchema.parse({
+    connectTimeoutMs: intFromEnv("RESOLVER_CONNECT_TIMEOUT_MS", 5000),
+    totalTimeoutMs: intFromEnv("RESOLVER_TOTAL_TIMEOUT_MS", 20000),
+    retries: intFromEnv("RESOLVER_RETRIES", 2),
+    backoffBaseMs: intFromEnv("RESOLVER_BACKOFF_BASE_MS", 250),
+    backoffMaxMs: intFromEnv("RESOLVER_BACKOFF_MAX_MS", 4000),
+    jitter: Number(process.env.RESOLVER_BACKOFF_JITTER ?? 0.5),
+    retryOnStatus: listFromEnv("RESOLVER_RETRY_ON_STATUS", ["429", "502", "503", "504"]).map(Number),
+    retryOnErrors: listFromEnv("RESOLVER_RETRY_ON_ERRORS", [
+      "ECONNRESET",
+      "ETIMEDOUT",
+      "EPIPE",
+      "EAI_AGAIN",
+      "UND_ERR_SOCKET",
+      "UND_ERR_CONNECT_TIMEOUT",
+    ]),
+  }),
+  unwrap: {
+    enabled: boolFromEnv("RESOLVER_UNWRAP", true),
+    // When off, a URL that was unwrapped is returned as is instead of being fetched
+    followUnwrapped: boolFromEnv("RESOLVER_FOLLOW_UNWRAPPED", true),
+    disabledRules: listFromEnv("RESOLVER_UNWRAP_DISABLED_RULES", []),
+  },
+  htmlRedirects: {
+    enabled: boolFromEnv("RESOLVER_HTML_REDIRECTS", true),
+    // Only this much of each page is downloaded, for redirects and metadata
+    maxBytes: intFromEnv("RESOLVER_HTML_MAX_BYTES", 64 * 1024),
+    // Longer delays are usually a page reloading itself, not a redirect
+    maxRefreshDelaySeconds: intFromEnv("RESOLVER_MAX_REFRESH_DELAY", 10),
+    // Script redirects are only followed on pages with at most this much
+    // visible text. Real pages assign location in handlers all the time.
+    maxScriptPageText: intFromEnv("RESOLVER_SCRIPT_REDIRECT_MAX_TEXT", 500),
+    followCanonical: boolFromEnv("RESOLVER_FOLLOW_CANONICAL", true),
+  },
+  cache: {
+    enabled: boolFromEnv("RESOLVER_CACHE", true),
+    ttlMs: intFromEnv("RESOLVER_CACHE_TTL_SECONDS", 60 * 60) * 1000,
+    // Failures are remembered for less time, they are often temporary
+    negativeTtlMs: intFromEnv("RESOLVER_CACHE_NEGATIVE_TTL_SECONDS", 5 * 60) * 1000,
+    maxEntries: intFromEnv("RESOLVER_CACHE_MAX_ENTRIES", 10000),
+  },
+  pageMetadata: {
+    // Title, description, Open Graph image and favicon of the final page
+    enabled: boolFromEnv("RESOLVER_PAGE_METADATA", true),
+  },
+  reResolve: {
+    enabled: boolFromEnv("RERESOLVE_ENABLED", true),
+    intervalMs: intFromEnv("RERESOLVE_INTERVAL_MINUTES", 15) * 60 * 1000,
+    // Entries checked more recently than this are left alone
+    maxAgeMs: intFromEnv("RERESOLVE_MAX_AGE_HOURS", 24) * 60 * 60 * 1000,
+    batchSize: intFromEnv("RERESOLVE_BATCH_SIZE", 100),
+  },
+  urlPolicy: {
+    allowedSchemes: listFromEnv("RESOLVER_ALLOWED_SCHEMES", ["http", "https"]),
+    allowedPorts: listFromEnv("RESOLVER_ALLOWED_PORTS", ["80", "443", "8080", "8443"]).map(Number),
+    // Turns off address and port checks, only meant for local development
+    allowPrivateAddresses: boolFromEnv("RESOLVER_ALLOW_PRIVATE_ADDRESSES", false),
+  },
+};
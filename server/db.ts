@@ -0,0 +1,17 @@
+import path from "path";
+import pg from "pg";
+import { drizzle } from "drizzle-orm/node-postgres";
+import { migrate } from "drizzle-orm/node-postgres/migrator";
+import * as schema from "@shared/schema";
+
+export function createDatabase(connectionString: string) {
+  const pool = new pg.Pool({ connectionString });
+  return drizzle(pool, { schema });
+}
+
+export type Database = ReturnType<typeof createDatabase>;
+
+// Applies the SQL migrations generated by `npm run db:generate`
+export async function migrateDatabase(db: Database) {
+  await migrate(db, { migrationsFolder: path.resolve(process.cwd(), "migrations") });
+}
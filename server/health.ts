@@ -0,0 +1,112 @@
+import { storage } from "./storage";
+import { config } from "./config";
+import { followRedirects, ResolveError } from "./resolver";
+import { runBatch, hostOf, type BatchOptions } from "./batch";
+import { canonicalizeUrl } from "@shared/canonicalize";
+import {
+  urlResolveSchema,
+  type HealthCheckItem,
+  type HealthCheckResult,
+  type ResolvedUrl,
+} from "@shared/schema";
+
+// What a URL is checked against: the entry it was stored as, if any
+function findPrevious(stored: ResolvedUrl[], url: string): ResolvedUrl | undefined {
+  const canonical = canonicalizeUrl(url, config.canonicalization);
+  return stored.find(entry => entry.originalUrl === url)
+    ?? stored.find(entry => entry.canonicalUrl === canonical);
+}
+
+async function checkLink(url: string, previous: ResolvedUrl | undefined, signal?: AbortSignal): Promise<HealthCheckItem> {
+  const previousUrl = previous?.canonicalUrl ?? null;
+  const cancelled: HealthCheckItem = {
+    url,
+    health: "cancelled",
+    status: null,
+    latencyMs: null,
+    finalUrl: null,
+    previousUrl,
+    changed: null,
+    error: null,
+  };
+  if (signal?.aborted) return cancelled;
+
+  const parsed = urlResolveSchema.shape.url.safeParse(url);
+  if (!parsed.success) {
+    return {
+      url,
+      health: "error",
+      status: null,
+      latencyMs: null,
+      finalUrl: null,
+      previousUrl,
+      changed: null,
+      error: parsed.error.errors[0]?.message ?? "Invalid URL format",
+    };
+  }
+
+  try {
+    // Always from the network, a cached answer says nothing about the link now
+    const { resolvedUrl, redirectChain, outcome } = await followRedirects(url, { signal, metadata: false, getAfterHeadError: true });
+    const status = [...redirectChain].reverse().find(hop => hop.status !== null)?.status ?? null;
+    const finalUrl = canonicalizeUrl(resolvedUrl, config.canonicalization);
+
+    return {
+      url,
+      health: status !== null && status >= 400 ? "broken" : "ok",
+      status,
+      latencyMs: outcome.durationMs,
+      finalUrl,
+      previousUrl,
+      changed: previousUrl === null ? null : previousUrl !== finalUrl,
+      error: null,
+    };
+  } catch (error) {
+    if (signal?.aborted) return cancelled;
+    const timedOut = error instanceof ResolveError && !!error.outcome?.timedOut;
+    return {
+      url,
+      health: timedOut ? "timeout" : "error",
+      status: null,
+      latencyMs: error instanceof ResolveError ? error.outcome?.durationMs ?? null : null,
+      finalUrl: null,
+      previousUrl,
+      changed: null,
+      error: error instanceof Error ? error.message : "Failed to check URL",
+    };
+  }
+}
+
+// Re-resolves every URL and reports whether it still works and still leads
+// where it did when the user stored it
+export async function checkLinks(
+  userId: number,
+  urls: string[],
+  options: BatchOptions,
+  onItem?: (item: HealthCheckItem, index: number) => void,
+): Promise<HealthCheckResult> {
+  const stored = await storage.getAllResolvedUrls(userId);
+
+  const items = await runBatch(
+    urls,
+    hostOf,
+    async (url, index) => {
+      const item = await checkLink(url, findPrevious(stored, url), options.signal);
+      onItem?.(item, index);
+      return item;
+    },
+    options,
+  );
+
+  return {
+    total: items.length,
+    ok: items.filter(item => item.health === "ok").length,
+    broken: items.filter(item => item.health === "broken").length,
+    timeout: items.filter(item => item.health === "timeout").length,
+    error: items.filter(item => item.health === "error").length,
+    cancelled: items.filter(item => item.health === "cancelled").length,
+    changed: items.filter(item => item.changed).length,
+    checkedAt: new Date().toISOString(),
+    items,
+  };
+}
@@ -0,0 +1,135 @@
+import type { RedirectMechanism } from "@shared/schema";
+import { findTags, stripComments } from "@shared/html";
+
+export interface HtmlRedirect {
+  mechanism: Extract<RedirectMechanism, "meta-refresh" | "javascript" | "canonical">;
+  url: string;
+}
+
+export interface HtmlRedirectOptions {
+  maxRefreshDelaySeconds: number;
+  maxScriptPageText: number;
+  followCanonical: boolean;
+}
+
+// <meta http-equiv="refresh" content="0; url=https://example.com/">
+function findMetaRefresh(html: string, maxDelaySeconds: number): string | null {
+  for (const meta of findTags(html, "meta")) {
+    if (meta["http-equiv"]?.toLowerCase() !== "refresh" || !meta.content) continue;
+
+    const match = /^\s*(\d+(?:\.\d+)?)?\s*[;,]?\s*(?:url\s*=\s*)?(['"]?)(.*?)\2\s*$/i.exec(meta.content);
+    if (!match || !match[3]) continue;
+    if (Number(match[1] ?? 0) > maxDelaySeconds) continue;
+    return match[3];
+  }
+  return null;
+}
+
+const scriptPatterns = [
+  // location = "...", window.location.href = "...", top.location = '...'
+  /(?:\b(?:window|document|self|top)\.)?\blocation(?:\.href)?\s*=\s*(["'`])(.+?)\1/g,
+  // location.replace("..."), window.location.assign('...')
+  /(?:\b(?:window|document|self|top)\.)?\blocation\.(?:replace|assign)\(\s*(["'`])(.+?)\1\s*\)/g,
+];
+
+// A script that names something else `location`
+const shadowsLocation = /\b(?:var|let|const)\s+location\b|\bfunction\b[^(]*\([^)]*\blocation\b/;
+
+// Whether `index` starts a statement that runs when the script loads: not in
+// a function, block, call or string, and not the body of an if or loop
+function isTopLevelStatement(script: string, index: number): boolean {
+  let depth = 0;
+  let previous = "";
+  for (let i = 0; i < index; i++) {
+    const char = script[i];
+    if (char === '"' || char === "'" || char === "`") {
+      for (i++; i < index && script[i] !== char; i++) {
+        if (script[i] === "\\") i++;
+      }
+    } else if (char === "/" && (script[i + 1] === "/" || script[i + 1] === "*")) {
+      const end = script[i + 1] === "/" ? script.indexOf("\n", i) : script.indexOf("*/", i) + 1;
+      if (end <= 0) return false;
+      i = end;
+      continue;
+    } else if ("{([".includes(char)) {
+      depth++;
+    } else if ("})]".includes(char)) {
+      depth--;
+    }
+    if (!/\s/.test(char)) previous = char;
+  }
+  return depth === 0 && (previous === "" || previous === ";" || previous === "}");
+}
+
+// The text a visitor would read, without scripts, styles and markup
+function visibleText(html: string): string {
+  return html
+    .replace(/<(script|style|noscript|template)\b[^>]*>[\s\S]*?(?:<\/\1\s*>|$)/gi, " ")
+    .replace(/<[^>]*>/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// Scripts are only read on pages that have next to nothing else to show, where
+// a location change on load is the point of the page rather than a handler
+function findScriptRedirect(html: string, maxPageText: number): string | null {
+  if (visibleText(html).length > maxPageText) return null;
+
+  const scripts = html.matchAll(/<script\b[^>]*>([\s\S]*?)(?:<\/script>|$)/gi);
+  for (const [, body] of Array.from(scripts)) {
+    if (shadowsLocation.test(body)) continue;
+
+    for (const pattern of scriptPatterns) {
+      for (const match of Array.from(body.matchAll(pattern))) {
+        // Template literals with substitutions are not worth guessing at
+        if (!match[2].includes("${") && isTopLevelStatement(body, match.index!)) {
+          return match[2].replace(/\\\//g, "/");
+        }
+      }
+    }
+  }
+  return null;
+}
+
+function findCanonical(html: string): string | null {
+  const link = findTags(html, "link").find(attributes =>
+    attributes.rel?.toLowerCase().split(/\s+/).includes("canonical") && attributes.href,
+  );
+  return link?.href ?? null;
+}
+
+// Looks for a client-side redirect in the start of an HTML document. Relative
+// targets are resolved against `baseUrl`; targets that are not http(s), or
+// that point back at the page itself, are ignored.
+export function detectHtmlRedirect(html: string, baseUrl: string, options: HtmlRedirectOptions): HtmlRedirect | null {
+  const source = stripComments(html);
+
+  const candidates: [HtmlRedirect["mechanism"], string | null][] = [
+    ["meta-refresh", findMetaRefresh(source, options.maxRefreshDelaySeconds)],
+    ["javascript", findScriptRedirect(source, options.maxScriptPageText)],
+    ["canonical", options.followCanonical ? findCanonical(source) : null],
+  ];
+
+  const base = new URL(baseUrl);
+  base.hash = "";
+
+  for (const [mechanism, target] of candidates) {
+    if (!target) continue;
+
+    let url: URL;
+    try {
+      url = new URL(target.trim(), base);
+    } catch {
+      continue;
+    }
+    if (url.protocol !== "http:" && url.protocol !== "https:") continue;
+
+    const withoutHash = new URL(url);
+    withoutHash.hash = "";
+    if (withoutHash.href === base.href) continue;
+
+    return { mechanism, url: url.href };
+  }
+
+  return null;
+}
@@ -1,11 +1,47 @@
 import express, { type Request, Response, NextFunction } from "express";
+import session from "express-session";
+import { randomBytes } from "crypto";
 import { registerRoutes } from "./routes";
+import { prepareStorage, storage } from "./storage";
+import { setupAuth } from "./auth";
+import { config } from "./config";
+import { scheduler } from "./scheduler";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
+// Batch, job and health check requests carry up to config.batch.maxUrls URLs,
+// far more than the 100kb express.json() accepts by default. Bodies parsed
+// here are skipped by the parser below.
+const BATCH_BODY_BYTES_PER_URL = 4 * 1024;
+app.use(
+  ["/api/resolve-batch", "/api/resolve-jobs", "/api/health-jobs"],
+  express.json({ limit: config.batch.maxUrls * BATCH_BODY_BYTES_PER_URL + 64 * 1024 }),
+);
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
+if (!config.session.secret) {
+  if (app.get("env") === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  log("SESSION_SECRET is not set, sessions will not survive a restart");
+}
+
+app.set("trust proxy", 1);
+app.use(session({
+  secret: config.session.secret ?? randomBytes(32).toString("hex"),
+  resave: false,
+  saveUninitialized: false,
+  store: storage.sessionStore,
+  cookie: {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: app.get("env") === "production",
+    maxAge: config.session.maxAgeMs,
+  },
+}));
+setupAuth(app);
+
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
@@ -37,6 +73,7 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  await prepareStorage();
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -67,4 +104,8 @@ app.use((req, res, next) => {
   }, () => {
     log(`serving on port ${port}`);
   });
+
+  if (config.reResolve.enabled) {
+    scheduler.start();
+  }
 })();
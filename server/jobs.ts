@@ -0,0 +1,175 @@
+import { randomUUID } from "crypto";
+import { log } from "./vite";
+import type {
+  BatchResolveItem,
+  BatchResolveResult,
+  HealthCheckItem,
+  HealthCheckResult,
+  HealthJobStatus,
+  JobEvent,
+  JobStatus,
+  ResolveJobStatus,
+} from "@shared/schema";
+
+// What differs between kinds of job: the counters a job keeps on top of
+// JobStatus, and the result reported when the work fails part way
+interface JobKind<Status extends JobStatus, Item, Result> {
+  counters(): Omit<Status, keyof JobStatus>;
+  count(status: Status, item: Item): void;
+  partialResult(status: Status): Result;
+}
+
+// Does the work of a job, calling `onItem` as each item finishes
+type JobRunner<Item, Result> = (signal: AbortSignal, onItem: (item: Item) => void) => Promise<Result>;
+
+interface Job<Status extends JobStatus, Item, Result> {
+  userId: number;
+  status: Status;
+  controller: AbortController;
+  listeners: Set<(event: JobEvent<Status, Item, Result>) => void>;
+  result: Result | null;
+}
+
+// Finished jobs stay around long enough for a reconnecting client to read them
+const FINISHED_JOB_TTL_MS = 10 * 60 * 1000;
+
+export class JobManager<Status extends JobStatus, Item, Result> {
+  private jobs: Map<string, Job<Status, Item, Result>>;
+
+  constructor(private kind: JobKind<Status, Item, Result>) {
+    this.jobs = new Map();
+  }
+
+  start(userId: number, total: number, run: JobRunner<Item, Result>): Status {
+    const controller = new AbortController();
+    const job: Job<Status, Item, Result> = {
+      userId,
+      status: {
+        id: randomUUID(),
+        state: "running",
+        total,
+        completed: 0,
+        startedAt: new Date().toISOString(),
+        finishedAt: null,
+        etaMs: null,
+        ...this.kind.counters(),
+      } as Status,
+      controller,
+      listeners: new Set(),
+      result: null,
+    };
+    this.jobs.set(job.status.id, job);
+
+    run(controller.signal, (item) => {
+      const { status } = job;
+      status.completed++;
+      this.kind.count(status, item);
+
+      const elapsed = Date.now() - new Date(status.startedAt).getTime();
+      status.etaMs = Math.round((elapsed / status.completed) * (status.total - status.completed));
+
+      this.emit(job, { type: "progress", job: { ...status }, item });
+    })
+      .then((result) => this.finish(job, result))
+      .catch((error) => {
+        log(`job ${job.status.id} failed: ${error instanceof Error ? error.message : error}`, "jobs");
+        this.finish(job, null);
+      });
+
+    return { ...job.status };
+  }
+
+  getJob(id: string, userId: number): Status | undefined {
+    const job = this.findJob(id, userId);
+    return job ? { ...job.status } : undefined;
+  }
+
+  cancelJob(id: string, userId: number): Status | undefined {
+    const job = this.findJob(id, userId);
+    if (!job) return undefined;
+
+    job.controller.abort();
+    return { ...job.status };
+  }
+
+  // Calls `listener` with the current state, then with every later event.
+  // Returns a function that stops listening.
+  subscribe(
+    id: string,
+    userId: number,
+    listener: (event: JobEvent<Status, Item, Result>) => void,
+  ): (() => void) | undefined {
+    const job = this.findJob(id, userId);
+    if (!job) return undefined;
+
+    listener({ type: "snapshot", job: { ...job.status } });
+    if (job.result) {
+      listener({ type: "done", job: { ...job.status }, result: job.result });
+      return () => {};
+    }
+
+    job.listeners.add(listener);
+    return () => job.listeners.delete(listener);
+  }
+
+  // Jobs belonging to someone else are reported as missing
+  private findJob(id: string, userId: number): Job<Status, Item, Result> | undefined {
+    const job = this.jobs.get(id);
+    return job?.userId === userId ? job : undefined;
+  }
+
+  private finish(job: Job<Status, Item, Result>, result: Result | null) {
+    const { status } = job;
+    status.state = job.controller.signal.aborted ? "cancelled" : "completed";
+    status.finishedAt = new Date().toISOString();
+    status.etaMs = 0;
+    job.result = result ?? this.kind.partialResult(status);
+
+    this.emit(job, { type: "done", job: { ...status }, result: job.result });
+    job.listeners.clear();
+
+    setTimeout(() => this.jobs.delete(status.id), FINISHED_JOB_TTL_MS).unref();
+  }
+
+  private emit(job: Job<Status, Item, Result>, event: JobEvent<Status, Item, Result>) {
+    job.listeners.forEach(listener => listener(event));
+  }
+}
+
+// Batch resolution, see resolveBatch
+export const jobs = new JobManager<ResolveJobStatus, BatchResolveItem, BatchResolveResult>({
+  counters: () => ({ resolved: 0, duplicates: 0, failed: 0 }),
+  count(status, item) {
+    if (item.status === "resolved") status.resolved++;
+    else if (item.status === "duplicate") status.duplicates++;
+    else if (item.status === "failed") status.failed++;
+  },
+  partialResult: (status) => ({
+    total: status.total,
+    resolved: status.resolved,
+    duplicates: status.duplicates,
+    failed: status.failed,
+    cancelled: status.total - status.completed,
+    items: [],
+  }),
+});
+
+// Link health checks, see checkLinks
+export const healthJobs = new JobManager<HealthJobStatus, HealthCheckItem, HealthCheckResult>({
+  counters: () => ({ ok: 0, broken: 0, timeout: 0, error: 0, changed: 0 }),
+  count(status, item) {
+    if (item.health !== "cancelled") status[item.health]++;
+    if (item.changed) status.changed++;
+  },
+  partialResult: (status) => ({
+    total: status.total,
+    ok: status.ok,
+    broken: status.broken,
+    timeout: status.timeout,
+    error: status.error,
+    cancelled: status.total - status.completed,
+    changed: status.changed,
+    checkedAt: new Date().toISOString(),
+    items: [],
+  }),
+});
@@ -0,0 +1,61 @@
+import type { PageMetadata } from "@shared/schema";
+import { decodeEntities, findTags, stripComments } from "@shared/html";
+
+// Pages put all kinds of things in these fields, keep what is stored sane
+const MAX_TEXT_LENGTH = 500;
+
+function cleanText(value: string | undefined): string | null {
+  if (!value) return null;
+  const text = value.replace(/\s+/g, " ").trim();
+  if (!text) return null;
+  return text.length > MAX_TEXT_LENGTH ? `${text.slice(0, MAX_TEXT_LENGTH - 1)}…` : text;
+}
+
+// Only http(s) URLs are kept, the client renders these as images
+function absoluteUrl(value: string | undefined, baseUrl: string): string | null {
+  if (!value) return null;
+  try {
+    const url = new URL(value.trim(), baseUrl);
+    return url.protocol === "http:" || url.protocol === "https:" ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+// Reads title, description, Open Graph and Twitter card fields and the
+// favicon from the start of an HTML document. Returns null when the page
+// has none of them, the favicon alone is only a guess.
+export function extractPageMetadata(html: string, baseUrl: string): PageMetadata | null {
+  const source = stripComments(html);
+
+  // Open Graph uses `property`, Twitter cards and plain meta tags use `name`
+  const meta = new Map<string, string>();
+  for (const tag of findTags(source, "meta")) {
+    const key = (tag.property ?? tag.name)?.toLowerCase();
+    if (key && tag.content && !meta.has(key)) {
+      meta.set(key, tag.content);
+    }
+  }
+
+  const titleTag = /<title\b[^>]*>([\s\S]*?)<\/title>/i.exec(source)?.[1];
+
+  const icons = findTags(source, "link").filter(link => {
+    const rel = link.rel?.toLowerCase().split(/\s+/) ?? [];
+    return link.href && (rel.includes("icon") || rel.includes("apple-touch-icon"));
+  });
+  // Prefer a plain icon over the larger touch icon
+  const icon = icons.find(link => link.rel.toLowerCase().split(/\s+/).includes("icon")) ?? icons[0];
+
+  const metadata: PageMetadata = {
+    title: cleanText(meta.get("og:title") ?? meta.get("twitter:title") ?? (titleTag && decodeEntities(titleTag))),
+    description: cleanText(meta.get("og:description") ?? meta.get("twitter:description") ?? meta.get("description")),
+    siteName: cleanText(meta.get("og:site_name") ?? meta.get("application-name")),
+    image: absoluteUrl(meta.get("og:image") ?? meta.get("og:image:url") ?? meta.get("twitter:image"), baseUrl),
+    favicon: absoluteUrl(icon?.href ?? "/favicon.ico", baseUrl),
+  };
+
+  if (!metadata.title && !metadata.description && !metadata.siteName && !metadata.image) {
+    return null;
+  }
+  return metadata;
+}
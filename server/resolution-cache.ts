@@ -0,0 +1,122 @@
+import { canonicalizeUrl } from "@shared/canonicalize";
+import type { ResolutionCacheEntry, ResolutionCacheStats } from "@shared/schema";
+import { config } from "./config";
+import type { ResolveResult } from "./resolver";
+
+interface CacheEntry {
+  result: ResolveResult | null;
+  // Set instead of `result` for a failed resolution, rethrown on a hit
+  error: Error | null;
+  createdAt: number;
+  expiresAt: number;
+  hits: number;
+}
+
+// Keys only normalize what cannot change where a URL leads: scheme and host
+// case, default ports and the fragment, which is never sent to the server
+export function cacheKey(url: string): string {
+  const withScheme = /^[a-z][a-z\d+.-]*:\/\//i.test(url) ? url : `https://${url}`;
+  return canonicalizeUrl(withScheme, {
+    stripTrackingParams: false,
+    sortQuery: false,
+    stripTrailingSlash: false,
+    dropFragment: true,
+  });
+}
+
+// In-memory LRU cache of redirect walks. A Map iterates in insertion order,
+// so re-inserting on every hit keeps the least recently used entry first.
+export class ResolutionCache {
+  private entries: Map<string, CacheEntry>;
+  private hits: number;
+  private misses: number;
+
+  constructor() {
+    this.entries = new Map();
+    this.hits = 0;
+    this.misses = 0;
+  }
+
+  // Returns undefined on a miss and throws the cached error for a failure
+  get(url: string): ResolveResult | undefined {
+    if (!config.cache.enabled) return undefined;
+
+    const key = cacheKey(url);
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) this.entries.delete(key);
+      this.misses++;
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    entry.hits++;
+    this.hits++;
+
+    if (entry.error) throw entry.error;
+    return entry.result!;
+  }
+
+  set(url: string, result: ResolveResult) {
+    this.store(url, { result, error: null }, config.cache.ttlMs);
+  }
+
+  setError(url: string, error: Error) {
+    this.store(url, { result: null, error }, config.cache.negativeTtlMs);
+  }
+
+  delete(url: string): boolean {
+    return this.entries.delete(cacheKey(url));
+  }
+
+  clear(): number {
+    const count = this.entries.size;
+    this.entries.clear();
+    return count;
+  }
+
+  stats(): ResolutionCacheStats {
+    return {
+      enabled: config.cache.enabled,
+      size: this.entries.size,
+      maxEntries: config.cache.maxEntries,
+      hits: this.hits,
+      misses: this.misses,
+    };
+  }
+
+  // Most recently used first
+  list(limit: number): ResolutionCacheEntry[] {
+    const now = Date.now();
+    return Array.from(this.entries.entries())
+      .reverse()
+      .filter(([, entry]) => entry.expiresAt > now)
+      .slice(0, limit)
+      .map(([url, entry]) => ({
+        url,
+        resolvedUrl: entry.result?.resolvedUrl ?? null,
+        error: entry.error?.message ?? null,
+        hops: entry.result?.redirectChain.length ?? 0,
+        hits: entry.hits,
+        createdAt: new Date(entry.createdAt).toISOString(),
+        expiresAt: new Date(entry.expiresAt).toISOString(),
+      }));
+  }
+
+  private store(url: string, value: Pick<CacheEntry, "result" | "error">, ttlMs: number) {
+    if (!config.cache.enabled || ttlMs <= 0) return;
+
+    const key = cacheKey(url);
+    const now = Date.now();
+    this.entries.delete(key);
+    this.entries.set(key, { ...value, createdAt: now, expiresAt: now + ttlMs, hits: 0 });
+
+    while (this.entries.size > config.cache.maxEntries) {
+      const oldest = this.entries.keys().next().value!;
+      this.entries.delete(oldest);
+    }
+  }
+}
+
+export const resolutionCache = new ResolutionCache();
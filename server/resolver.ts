@@ -0,0 +1,387 @@
+import { fetch, type Agent } from "undici";
+import { setTimeout as sleep } from "timers/promises";
+import { assertUrlAllowed, guardedDispatcher, releaseDispatcher, BlockedUrlError } from "./url-policy";
+import { unwrapUrl } from "./unwrap";
+import { detectHtmlRedirect } from "./html-redirect";
+import { extractPageMetadata } from "./page-metadata";
+import { resolutionCache } from "./resolution-cache";
+import { config } from "./config";
+import { canonicalizeUrl } from "@shared/canonicalize";
+import type { PageMetadata, RedirectHop, ResolvePolicyOutcome, ResolverPolicy, ResolverPolicyOverride } from "@shared/schema";
+
+const USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36';
+
+export interface ResolveOptions {
+  maxRedirects?: number;
+  signal?: AbortSignal;
+  // Defaults to config.htmlRedirects.enabled
+  htmlRedirects?: boolean;
+  // Merged over config.resolverPolicy
+  policy?: ResolverPolicyOverride;
+  // Defaults to config.pageMetadata.enabled
+  metadata?: boolean;
+  // Ask again with GET after any 4xx or 5xx answer to HEAD, not only 405
+  // and 501. Health checks use this so a server that mishandles HEAD is not
+  // reported broken.
+  getAfterHeadError?: boolean;
+}
+
+export interface ResolveResult {
+  resolvedUrl: string;
+  redirectChain: RedirectHop[];
+  // At least one hop was decoded locally instead of fetched
+  unwrapped: boolean;
+  metadata: PageMetadata | null;
+  outcome: ResolvePolicyOutcome;
+}
+
+// A resolution that failed after the policy ran out of retries or time.
+// `status` is what the API answers with, `code` the system or undici error
+// code of the last failure, like ENOTFOUND.
+export class ResolveError extends Error {
+  outcome?: ResolvePolicyOutcome;
+
+  constructor(message: string, public status: number, public code?: string) {
+    super(message);
+    this.name = "ResolveError";
+  }
+}
+
+export interface ResolvedTarget extends ResolveResult {
+  canonicalUrl: string;
+  // Served from the resolution cache instead of the network
+  cached: boolean;
+}
+
+type HttpHop = RedirectHop & { status: number; method: "HEAD" | "GET" };
+
+// Shared by every request of one resolution
+interface HopContext {
+  signal: AbortSignal;
+  dispatcher: Agent;
+  outcome: ResolvePolicyOutcome;
+  getAfterHeadError: boolean;
+}
+
+async function requestHop(url: string, method: HttpHop["method"], context: HopContext): Promise<HttpHop> {
+  const start = Date.now();
+  context.outcome.attempts++;
+  const response = await fetch(url, {
+    method,
+    redirect: 'manual',
+    signal: context.signal,
+    dispatcher: context.dispatcher,
+    headers: {
+      'User-Agent': USER_AGENT
+    }
+  });
+  // Only the headers matter, release the connection
+  await response.body?.cancel();
+
+  return {
+    url,
+    status: response.status,
+    method,
+    location: response.headers.get('location'),
+    durationMs: Date.now() - start,
+    mechanism: 'http',
+  };
+}
+
+interface HtmlPage {
+  hop: HttpHop;
+  // At most config.htmlRedirects.maxBytes of the document
+  html: string;
+}
+
+// GETs an HTML page and reads the start of it. Returns null for anything
+// that is not a successful HTML response.
+async function requestHtml(url: string, context: HopContext): Promise<HtmlPage | null> {
+  const start = Date.now();
+  context.outcome.attempts++;
+  const response = await fetch(url, {
+    method: 'GET',
+    redirect: 'manual',
+    signal: context.signal,
+    dispatcher: context.dispatcher,
+    headers: {
+      'User-Agent': USER_AGENT,
+      'Accept': 'text/html,application/xhtml+xml'
+    }
+  });
+
+  const contentType = response.headers.get('content-type') ?? '';
+  if (response.status < 200 || response.status >= 300 || !/html/i.test(contentType) || !response.body) {
+    await response.body?.cancel();
+    return null;
+  }
+
+  const { maxBytes } = config.htmlRedirects;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let html = '';
+  let received = 0;
+  while (received < maxBytes) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    html += decoder.decode(value.subarray(0, maxBytes - received), { stream: true });
+    received += value.byteLength;
+  }
+  await reader.cancel();
+
+  return {
+    hop: {
+      url,
+      status: response.status,
+      method: 'GET',
+      location: null,
+      durationMs: Date.now() - start,
+      mechanism: 'http',
+    },
+    html,
+  };
+}
+
+// fetch reports connection errors as "fetch failed" with the real reason as `cause`
+function policyError(error: unknown): BlockedUrlError | undefined {
+  if (error instanceof BlockedUrlError) return error;
+  if (error instanceof Error && error.cause instanceof BlockedUrlError) return error.cause;
+  return undefined;
+}
+
+function resolveLocation(currentUrl: string, location: string): string {
+  // Handle relative URLs
+  if (location.startsWith('/')) {
+    const urlObj = new URL(currentUrl);
+    return `${urlObj.protocol}//${urlObj.host}${location}`;
+  } else if (location.startsWith('http')) {
+    return location;
+  }
+  // Handle relative paths
+  return new URL(location, currentUrl).href;
+}
+
+// fetch failures carry the system or undici error code on `cause`
+function errorCode(error: unknown): string | undefined {
+  const cause = error instanceof Error && error.cause instanceof Error ? error.cause : error;
+  return (cause as NodeJS.ErrnoException | undefined)?.code;
+}
+
+function errorMessage(error: unknown): string {
+  if (!(error instanceof Error)) return 'Unknown error';
+  return error.cause instanceof Error ? `${error.message} (${error.cause.message})` : error.message;
+}
+
+// Exponential backoff, with `jitter` of it randomized away
+function backoffDelay(policy: ResolverPolicy, retry: number): number {
+  const delay = Math.min(policy.backoffMaxMs, policy.backoffBaseMs * 2 ** retry);
+  return Math.round(delay * (1 - policy.jitter * Math.random()));
+}
+
+// Answers of servers that do not support HEAD at all
+const HEAD_NOT_SUPPORTED = [405, 501];
+
+// HEAD first, GET for servers that reject HEAD by failing or by status
+async function requestHopWithFallback(url: string, context: HopContext): Promise<HttpHop> {
+  let hop: HttpHop;
+  try {
+    hop = await requestHop(url, 'HEAD', context);
+  } catch (error) {
+    if (context.signal.aborted) throw error;
+    const blocked = policyError(error);
+    if (blocked) throw blocked;
+
+    return await requestHop(url, 'GET', context);
+  }
+
+  const rejected = HEAD_NOT_SUPPORTED.includes(hop.status) || (context.getAfterHeadError && hop.status >= 400);
+  return rejected ? await requestHop(url, 'GET', context) : hop;
+}
+
+async function requestWithRetries(url: string, context: HopContext): Promise<HttpHop> {
+  const { policy } = context.outcome;
+
+  for (let retry = 0; ; retry++) {
+    let hop: HttpHop | undefined;
+    let failure: unknown;
+    try {
+      // Checked on every hop, a public URL may redirect to a private one.
+      // Inside the loop so a failed DNS lookup is retried like a failed request.
+      await assertUrlAllowed(url);
+      hop = await requestHopWithFallback(url, context);
+    } catch (error) {
+      if (context.signal.aborted) throw error;
+      const blocked = policyError(error);
+      if (blocked) throw blocked;
+      failure = error;
+    }
+
+    const retryable = hop
+      ? policy.retryOnStatus.includes(hop.status)
+      : policy.retryOnErrors.includes(errorCode(failure) ?? '');
+
+    if (!retryable || retry >= policy.retries) {
+      if (hop) return hop;
+      throw new ResolveError(`Failed to resolve URL: ${errorMessage(failure)}`, 502, errorCode(failure));
+    }
+
+    context.outcome.retries++;
+    await sleep(backoffDelay(policy, retry), undefined, { signal: context.signal });
+  }
+}
+
+interface WalkOptions {
+  maxRedirects: number;
+  htmlRedirects: boolean;
+  metadata: boolean;
+}
+
+async function walkRedirects(url: string, { maxRedirects, htmlRedirects, metadata }: WalkOptions, context: HopContext): Promise<Omit<ResolveResult, "outcome">> {
+  let currentUrl = url;
+  const redirectChain: RedirectHop[] = [];
+
+  // Ensure URL has protocol
+  if (!/^[a-z][a-z\d+.-]*:\/\//i.test(currentUrl)) {
+    currentUrl = 'https://' + currentUrl;
+  }
+
+  const unwrapped = () => redirectChain.some(hop => hop.mechanism === 'unwrap');
+
+  while (redirectChain.length < maxRedirects) {
+    // Known wrappers carry their destination in the URL, no request needed
+    const wrapped = unwrapUrl(currentUrl);
+    if (wrapped) {
+      redirectChain.push({
+        url: currentUrl,
+        status: null,
+        method: null,
+        location: wrapped.url,
+        durationMs: 0,
+        mechanism: 'unwrap',
+        rule: wrapped.rule,
+      });
+      currentUrl = wrapped.url;
+      continue;
+    }
+
+    if (!config.unwrap.followUnwrapped && unwrapped()) {
+      return { resolvedUrl: currentUrl, redirectChain, unwrapped: true, metadata: null };
+    }
+
+    const hop = await requestWithRetries(currentUrl, context);
+    redirectChain.push(hop);
+
+    // If response is a redirect, follow it
+    if (hop.status >= 300 && hop.status < 400 && hop.location) {
+      currentUrl = resolveLocation(currentUrl, hop.location);
+      continue;
+    }
+
+    // Successful HTML pages may still bounce the browser somewhere else, and
+    // are where the page metadata comes from
+    if ((htmlRedirects || metadata) && hop.status >= 200 && hop.status < 300) {
+      const page = await requestHtml(currentUrl, context).catch(error => {
+        if (context.signal.aborted) throw error;
+        // The page already resolved, a failed second look does not change that
+        return null;
+      });
+
+      const redirect = page && htmlRedirects
+        ? detectHtmlRedirect(page.html, currentUrl, config.htmlRedirects)
+        : null;
+
+      // Canonical links in particular tend to point back at an earlier page
+      if (page && redirect && !redirectChain.some(previous => previous.url === redirect.url)) {
+        redirectChain[redirectChain.length - 1] = { ...page.hop, location: redirect.url, mechanism: redirect.mechanism };
+        currentUrl = redirect.url;
+        continue;
+      }
+
+      return {
+        resolvedUrl: currentUrl,
+        redirectChain,
+        unwrapped: unwrapped(),
+        metadata: page && metadata ? extractPageMetadata(page.html, currentUrl) : null,
+      };
+    }
+
+    // No more redirects, return current URL
+    return { resolvedUrl: currentUrl, redirectChain, unwrapped: unwrapped(), metadata: null };
+  }
+
+  throw new ResolveError(`Too many redirects (max ${maxRedirects})`, 502);
+}
+
+export async function followRedirects(url: string, options: ResolveOptions = {}): Promise<ResolveResult> {
+  const {
+    maxRedirects = 10,
+    signal,
+    htmlRedirects = config.htmlRedirects.enabled,
+    metadata = config.pageMetadata.enabled,
+  } = options;
+  const policy: ResolverPolicy = { ...config.resolverPolicy, ...options.policy };
+  const start = Date.now();
+
+  const timeout = AbortSignal.timeout(policy.totalTimeoutMs);
+  const context: HopContext = {
+    signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+    dispatcher: guardedDispatcher(policy.connectTimeoutMs),
+    outcome: { policy, attempts: 0, retries: 0, timedOut: false, durationMs: 0 },
+    getAfterHeadError: options.getAfterHeadError ?? false,
+  };
+  const finish = () => {
+    context.outcome.durationMs = Date.now() - start;
+    context.outcome.timedOut = timeout.aborted;
+    return context.outcome;
+  };
+
+  try {
+    const result = await walkRedirects(url, { maxRedirects, htmlRedirects, metadata }, context);
+    return { ...result, outcome: finish() };
+  } catch (error) {
+    // Cancelled by the caller, not a resolution failure
+    if (signal?.aborted) throw error;
+
+    const failure = timeout.aborted
+      ? new ResolveError(`Timed out after ${policy.totalTimeoutMs}ms`, 504)
+      : error;
+    if (failure instanceof ResolveError) {
+      failure.outcome = finish();
+    }
+    throw failure;
+  } finally {
+    releaseDispatcher(context.dispatcher);
+  }
+}
+
+// Full resolution pipeline used by the API: follow redirects, then
+// canonicalize the destination for storage and duplicate checks. Results,
+// including failures, are cached unless the caller overrides the defaults.
+export async function resolveUrl(url: string, options: ResolveOptions = {}): Promise<ResolvedTarget> {
+  const cacheable = options.maxRedirects === undefined
+    && options.htmlRedirects === undefined
+    && options.policy === undefined
+    && options.metadata === undefined
+    && options.getAfterHeadError === undefined;
+
+  let result = cacheable ? resolutionCache.get(url) : undefined;
+  const cached = result !== undefined;
+
+  if (!result) {
+    try {
+      result = await followRedirects(url, options);
+    } catch (error) {
+      if (cacheable && !options.signal?.aborted && error instanceof Error) {
+        resolutionCache.setError(url, error);
+      }
+      throw error;
+    }
+    if (cacheable) resolutionCache.set(url, result);
+  }
+
+  return {
+    ...result,
+    canonicalUrl: canonicalizeUrl(result.resolvedUrl, config.canonicalization),
+    cached,
+  };
+}
@@ -1,115 +1,123 @@
-import type { Express } from "express";
+import type { Express, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { urlResolveSchema } from "@shared/schema";
+import { resolveUrl, ResolveError } from "./resolver";
+import { resolveBatch, type BatchOptions } from "./batch";
+import { jobs, healthJobs, type JobManager } from "./jobs";
+import { config } from "./config";
+import { BlockedUrlError } from "./url-policy";
+import { requireScope, requireAdmin } from "./auth";
+import { resolutionCache } from "./resolution-cache";
+import { checkLinks } from "./health";
+import { receiveUrlFiles, uploadQuerySchema, UploadError } from "./uploads";
+import { urlResolveSchema, urlBatchResolveSchema, healthCheckSchema, fileAnalyzeSchema, fileMergeSchema, fileSetOperationSchema, type JobStatus, type ResolverPolicyOverride } from "@shared/schema";
+import { analyzeTexts } from "@shared/url-analysis";
+import { applySetOperation, mergeFiles, summarizeMerge, summarizeSetOperation } from "@shared/set-operations";
 import { z } from "zod";
 
-async function followRedirects(url: string, maxRedirects = 10): Promise<string> {
-  let currentUrl = url;
-  let redirectCount = 0;
+function getBatchOptions(concurrency?: number, policy?: ResolverPolicyOverride): BatchOptions {
+  return {
+    concurrency: Math.min(concurrency ?? config.batch.defaultConcurrency, config.batch.maxConcurrency),
+    hostDelayMs: config.batch.hostDelayMs,
+    policy,
+  };
+}
 
-  // Ensure URL has protocol
-  if (!currentUrl.startsWith('http://') && !currentUrl.startsWith('https://')) {
-    currentUrl = 'https://' + currentUrl;
-  }
+// Progress, event stream and cancellation of the jobs started under `path`
+function registerJobRoutes<Status extends JobStatus, Item, Result>(
+  app: Express,
+  path: string,
+  manager: JobManager<Status, Item, Result>,
+) {
+  // Get the current progress of a job
+  app.get(`${path}/:id`, requireScope("read"), (req, res) => {
+    const job = manager.getJob(req.params.id, req.user!.id);
+    if (!job) {
+      return res.status(404).json({ message: "Job not found" });
+    }
+    res.json(job);
+  });
 
-  while (redirectCount < maxRedirects) {
-    try {
-      const response = await fetch(currentUrl, {
-        method: 'HEAD',
-        redirect: 'manual',
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
-        }
-      });
+  // Stream job progress as Server-Sent Events
+  app.get(`${path}/:id/events`, requireScope("read"), (req, res) => {
+    if (!manager.getJob(req.params.id, req.user!.id)) {
+      return res.status(404).json({ message: "Job not found" });
+    }
 
-      // If response is a redirect, follow it
-      if (response.status >= 300 && response.status < 400) {
-        const location = response.headers.get('location');
-        if (location) {
-          // Handle relative URLs
-          if (location.startsWith('/')) {
-            const urlObj = new URL(currentUrl);
-            currentUrl = `${urlObj.protocol}//${urlObj.host}${location}`;
-          } else if (location.startsWith('http')) {
-            currentUrl = location;
-          } else {
-            // Handle relative paths
-            const urlObj = new URL(currentUrl);
-            currentUrl = new URL(location, urlObj.href).href;
-          }
-          redirectCount++;
-          continue;
-        }
-      }
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "Connection": "keep-alive",
+    });
 
-      // No more redirects, return current URL
-      return currentUrl;
-    } catch (error) {
-      // If HEAD fails, try GET request
-      try {
-        const response = await fetch(currentUrl, {
-          method: 'GET',
-          redirect: 'manual',
-          headers: {
-            'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
-          }
-        });
-
-        if (response.status >= 300 && response.status < 400) {
-          const location = response.headers.get('location');
-          if (location) {
-            if (location.startsWith('/')) {
-              const urlObj = new URL(currentUrl);
-              currentUrl = `${urlObj.protocol}//${urlObj.host}${location}`;
-            } else if (location.startsWith('http')) {
-              currentUrl = location;
-            } else {
-              const urlObj = new URL(currentUrl);
-              currentUrl = new URL(location, urlObj.href).href;
-            }
-            redirectCount++;
-            continue;
-          }
-        }
-
-        return currentUrl;
-      } catch (secondError) {
-        throw new Error(`Failed to resolve URL: ${secondError instanceof Error ? secondError.message : 'Unknown error'}`);
+    // Keep proxies from closing an idle stream
+    const heartbeat = setInterval(() => res.write(": ping\n\n"), 15000);
+
+    const unsubscribe = manager.subscribe(req.params.id, req.user!.id, (event) => {
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      if (event.type === "done") {
+        clearInterval(heartbeat);
+        res.end();
       }
-    }
-  }
+    });
+
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe?.();
+    });
+  });
 
-  throw new Error(`Too many redirects (max ${maxRedirects})`);
+  // Cancel a running job
+  app.delete(`${path}/:id`, requireScope("resolve"), (req, res) => {
+    const job = manager.cancelJob(req.params.id, req.user!.id);
+    if (!job) {
+      return res.status(404).json({ message: "Job not found" });
+    }
+    res.json(job);
+  });
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Resolve URL endpoint
-  app.post("/api/resolve-url", async (req, res) => {
+  app.post("/api/resolve-url", requireScope("resolve"), async (req, res) => {
     try {
-      const { url } = urlResolveSchema.parse(req.body);
+      const { url, policy } = urlResolveSchema.parse(req.body);
       
-      const resolvedUrl = await followRedirects(url);
+      const { resolvedUrl, canonicalUrl, redirectChain, metadata, unwrapped, cached, outcome } = await resolveUrl(url, { policy });
       
-      // Check if URL already exists to prevent duplicates
-      const exists = await storage.checkUrlExists(resolvedUrl);
-      if (exists) {
+      const result = await storage.resolveAndStoreUrl(req.user!.id, {
+        originalUrl: url,
+        resolvedUrl,
+        canonicalUrl,
+        redirectChain,
+        metadata,
+      });
+
+      // Not stored, the list already leads there
+      if (!result) {
         res.status(409).json({ 
           message: "URL already exists in the list",
-          resolvedUrl 
+          resolvedUrl,
+          canonicalUrl,
+          redirectChain,
+          unwrapped,
+          cached,
+          outcome
         });
         return;
       }
-      
-      const result = await storage.resolveAndStoreUrl(url, resolvedUrl);
-      
-      res.json(result);
+
+      res.json({ ...result, cached, outcome });
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ 
           message: "Invalid URL format",
           errors: error.errors 
         });
+      } else if (error instanceof BlockedUrlError) {
+        res.status(error.status).json({ message: error.message });
+      } else if (error instanceof ResolveError) {
+        res.status(error.status).json({ message: error.message, code: error.code, outcome: error.outcome });
       } else {
         res.status(500).json({ 
           message: error instanceof Error ? error.message : "Failed to resolve URL"
@@ -118,10 +126,69 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Resolve a list of URLs, reporting the outcome of each one
+  app.post("/api/resolve-batch", requireScope("resolve"), async (req, res) => {
+    try {
+      const { urls, concurrency, policy } = urlBatchResolveSchema.parse(req.body);
+
+      if (urls.length > config.batch.maxUrls) {
+        return res.status(400).json({
+          message: `Too many URLs in one batch (max ${config.batch.maxUrls})`
+        });
+      }
+
+      const result = await resolveBatch(req.user!.id, urls, getBatchOptions(concurrency, policy));
+
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ 
+          message: "Invalid batch request",
+          errors: error.errors 
+        });
+      } else {
+        res.status(500).json({ 
+          message: error instanceof Error ? error.message : "Failed to resolve URLs"
+        });
+      }
+    }
+  });
+
+  // Start a background batch resolution job
+  app.post("/api/resolve-jobs", requireScope("resolve"), async (req, res) => {
+    try {
+      const { urls, concurrency, policy } = urlBatchResolveSchema.parse(req.body);
+
+      if (urls.length > config.batch.maxUrls) {
+        return res.status(400).json({
+          message: `Too many URLs in one batch (max ${config.batch.maxUrls})`
+        });
+      }
+
+      const options = getBatchOptions(concurrency, policy);
+      const job = jobs.start(req.user!.id, urls.length, (signal, onItem) =>
+        resolveBatch(req.user!.id, urls, { ...options, signal }, onItem));
+      res.status(202).json(job);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ 
+          message: "Invalid batch request",
+          errors: error.errors 
+        });
+      } else {
+        res.status(500).json({ 
+          message: error instanceof Error ? error.message : "Failed to start job"
+        });
+      }
+    }
+  });
+
+  registerJobRoutes(app, "/api/resolve-jobs", jobs);
+
   // Get all resolved URLs
-  app.get("/api/resolved-urls", async (req, res) => {
+  app.get("/api/resolved-urls", requireScope("read"), async (req, res) => {
     try {
-      const urls = await storage.getAllResolvedUrls();
+      const urls = await storage.getAllResolvedUrls(req.user!.id);
       res.json(urls);
     } catch (error) {
       res.status(500).json({ 
@@ -130,10 +197,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Every destination a saved URL has led to, oldest first
+  app.get("/api/resolved-urls/:id/history", requireScope("read"), async (req, res) => {
+    try {
+      const history = await storage.getDestinationHistory(req.user!.id, Number(req.params.id));
+      if (!history) {
+        return res.status(404).json({ message: "Resolved URL not found" });
+      }
+      res.json(history);
+    } catch (error) {
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to fetch destination history"
+      });
+    }
+  });
+
   // Clear all resolved URLs
-  app.delete("/api/resolved-urls", async (req, res) => {
+  app.delete("/api/resolved-urls", requireScope("admin"), async (req, res) => {
     try {
-      await storage.clearAllResolvedUrls();
+      await storage.clearAllResolvedUrls(req.user!.id);
       res.json({ message: "All resolved URLs cleared" });
     } catch (error) {
       res.status(500).json({ 
@@ -142,57 +224,171 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Analyze text file content
-  app.post("/api/analyze-file", async (req, res) => {
+  // Start a background check of whether stored or uploaded links still work
+  app.post("/api/health-jobs", requireScope("resolve"), async (req, res) => {
     try {
-      const { content } = req.body;
-      if (!content || typeof content !== 'string') {
-        return res.status(400).json({ message: "File content is required" });
+      const request = healthCheckSchema.parse(req.body);
+      // Stored entries are checked from the URL the user originally entered
+      const urls = request.source === "urls"
+        ? request.urls
+        : (await storage.getAllResolvedUrls(req.user!.id)).map(entry => entry.originalUrl);
+
+      if (urls.length > config.batch.maxUrls) {
+        return res.status(400).json({
+          message: `Too many URLs in one check (max ${config.batch.maxUrls})`
+        });
       }
 
-      const lines = content.split('\n').map((line: string) => line.trim()).filter((line: string) => line.length > 0);
-      const uniqueLines = Array.from(new Set(lines));
-      
-      res.json({
-        totalLines: lines.length,
-        uniqueLines: uniqueLines.length,
-        duplicateLines: lines.length - uniqueLines.length,
-        urls: uniqueLines
-      });
+      const options = getBatchOptions(request.concurrency);
+      const job = healthJobs.start(req.user!.id, urls.length, (signal, onItem) =>
+        checkLinks(req.user!.id, urls, { ...options, signal }, onItem));
+      res.status(202).json(job);
     } catch (error) {
-      res.status(500).json({ 
-        message: error instanceof Error ? error.message : "Failed to analyze file"
-      });
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ 
+          message: "Invalid health check request",
+          errors: error.errors 
+        });
+      } else {
+        res.status(500).json({ 
+          message: error instanceof Error ? error.message : "Failed to start health check"
+        });
+      }
+    }
+  });
+
+  registerJobRoutes(app, "/api/health-jobs", healthJobs);
+
+  // Inspect the resolution cache, most recently used entries first
+  app.get("/api/admin/resolution-cache", requireAdmin, (req, res) => {
+    const limit = Math.min(Number(req.query.limit) || 100, 1000);
+    res.json({
+      ...resolutionCache.stats(),
+      entries: resolutionCache.list(limit),
+    });
+  });
+
+  // Purge one URL with ?url=, or the whole cache
+  app.delete("/api/admin/resolution-cache", requireAdmin, (req, res) => {
+    const { url } = req.query;
+    if (typeof url === "string" && url.length > 0) {
+      res.json({ purged: resolutionCache.delete(url) ? 1 : 0 });
+      return;
+    }
+    res.json({ purged: resolutionCache.clear() });
+  });
+
+  // Analyze text file content
+  app.post("/api/analyze-file", async (req, res) => {
+    try {
+      const { content, rules } = fileAnalyzeSchema.parse(req.body);
+      res.json(analyzeTexts([content], rules));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ 
+          message: "File content is required",
+          errors: error.errors 
+        });
+      } else {
+        res.status(500).json({ 
+          message: error instanceof Error ? error.message : "Failed to analyze file"
+        });
+      }
     }
   });
 
   // Merge multiple file contents
   app.post("/api/merge-files", async (req, res) => {
     try {
-      const { files } = req.body;
-      if (!files || !Array.isArray(files)) {
-        return res.status(400).json({ message: "Files array is required" });
+      const { files, rules } = fileMergeSchema.parse(req.body);
+      const named = files.map((file, index) =>
+        typeof file === "string" ? { name: `File ${index + 1}`, content: file } : file,
+      );
+      res.json(mergeFiles(named, rules));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ 
+          message: "Files array is required",
+          errors: error.errors 
+        });
+      } else {
+        res.status(500).json({ 
+          message: error instanceof Error ? error.message : "Failed to merge files"
+        });
       }
+    }
+  });
 
-      const allLines: string[] = [];
-      for (const fileContent of files) {
-        const lines = fileContent.split('\n').map((line: string) => line.trim()).filter((line: string) => line.length > 0);
-        allLines.push(...lines);
+  // Intersect, subtract or diff the URLs of named files
+  app.post("/api/set-operation", async (req, res) => {
+    try {
+      const { operation, files, rules } = fileSetOperationSchema.parse(req.body);
+      res.json(applySetOperation(files, operation, rules));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ 
+          message: "Invalid set operation request",
+          errors: error.errors 
+        });
+      } else {
+        res.status(500).json({ 
+          message: error instanceof Error ? error.message : "Failed to compare files"
+        });
       }
+    }
+  });
 
-      const uniqueLines = Array.from(new Set(allLines));
-      
-      res.json({
-        totalLines: allLines.length,
-        uniqueLines: uniqueLines.length,
-        duplicateLines: allLines.length - uniqueLines.length,
-        urls: uniqueLines
+  // Multipart versions of the file tools for uploads too large to send as
+  // JSON. Files are processed while they stream in; see server/uploads.ts.
+  const uploadErrorResponse = (res: Response, error: unknown, fallback: string) => {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ 
+        message: "Invalid upload options",
+        errors: error.errors 
       });
-    } catch (error) {
+    } else if (error instanceof UploadError) {
+      res.status(error.status).json({ message: error.message });
+    } else {
       res.status(500).json({ 
-        message: error instanceof Error ? error.message : "Failed to merge files"
+        message: error instanceof Error ? error.message : fallback
       });
     }
+  };
+
+  app.post("/api/analyze-file/upload", async (req, res) => {
+    try {
+      const { rules, ...input } = uploadQuerySchema.parse(req.query);
+      const { analyzer } = await receiveUrlFiles(req, { rules, input, single: true });
+      res.json(analyzer.result());
+    } catch (error) {
+      uploadErrorResponse(res, error, "Failed to analyze file");
+    }
+  });
+
+  app.post("/api/merge-files/upload", async (req, res) => {
+    try {
+      const { rules, ...input } = uploadQuerySchema.parse(req.query);
+      const { analyzer, names } = await receiveUrlFiles(req, { rules, input });
+      res.json(summarizeMerge(analyzer, names));
+    } catch (error) {
+      uploadErrorResponse(res, error, "Failed to merge files");
+    }
+  });
+
+  app.post("/api/set-operation/upload", async (req, res) => {
+    try {
+      const { rules, operation, ...input } = uploadQuerySchema.parse(req.query);
+      if (!operation) {
+        return res.status(400).json({ message: "Operation is required" });
+      }
+      const { analyzer, names } = await receiveUrlFiles(req, { rules, input });
+      if (names.length < 2) {
+        return res.status(400).json({ message: "At least two files are required" });
+      }
+      res.json(summarizeSetOperation(analyzer, names, operation));
+    } catch (error) {
+      uploadErrorResponse(res, error, "Failed to compare files");
+    }
   });
 
   const httpServer = createServer(app);
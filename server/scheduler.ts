@@ -0,0 +1,71 @@
+import { storage, type Destination } from "./storage";
+import { config } from "./config";
+import { followRedirects } from "./resolver";
+import { runBatch, hostOf } from "./batch";
+import { log } from "./vite";
+import { canonicalizeUrl } from "@shared/canonicalize";
+
+// Re-resolves saved entries in the background so a short link whose owner
+// points it somewhere else shows up as drifted. Each tick checks the entries
+// that have gone longest without a check, a bounded number at a time.
+export class ReResolutionScheduler {
+  private timer: NodeJS.Timeout | null;
+  private running: boolean;
+
+  constructor() {
+    this.timer = null;
+    this.running = false;
+  }
+
+  start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.tick().catch((error) => {
+        log(`re-resolution failed: ${error instanceof Error ? error.message : error}`, "scheduler");
+      });
+    }, config.reResolve.intervalMs);
+    // Never keeps the process alive on its own
+    this.timer.unref();
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  // Returns how many entries were checked; a tick that overlaps a slow
+  // previous one does nothing
+  async tick(): Promise<number> {
+    if (this.running) return 0;
+    this.running = true;
+
+    try {
+      const checkedBefore = new Date(Date.now() - config.reResolve.maxAgeMs);
+      const due = await storage.getUrlsDueForCheck(checkedBefore, config.reResolve.batchSize);
+
+      await runBatch(due, entry => hostOf(entry.originalUrl), async (entry) => {
+        let destination: Destination | null = null;
+        try {
+          // Straight from the network, the cache would hide a change
+          const { resolvedUrl } = await followRedirects(entry.originalUrl, { metadata: false });
+          destination = { resolvedUrl, canonicalUrl: canonicalizeUrl(resolvedUrl, config.canonicalization) };
+        } catch {
+          // A link that fails to resolve has not drifted, the health checker reports it
+        }
+        await storage.recordCheck(entry.id, destination, new Date());
+      }, {
+        concurrency: config.batch.defaultConcurrency,
+        hostDelayMs: config.batch.hostDelayMs,
+      });
+
+      if (due.length > 0) {
+        log(`re-resolved ${due.length} saved URLs`, "scheduler");
+      }
+      return due.length;
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+export const scheduler = new ReResolutionScheduler();
@@ -1,46 +1,717 @@
-import { resolvedUrls, type ResolvedUrl, type InsertResolvedUrl } from "@shared/schema";
+import fs from "fs/promises";
+import path from "path";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { and, asc, desc, eq, isNotNull, isNull, lt, or, sql } from "drizzle-orm";
+import {
+  users,
+  apiTokens,
+  resolvedUrls,
+  urlDestinations,
+  type User,
+  type InsertUser,
+  type ApiToken,
+  type InsertApiToken,
+  type ResolvedUrl,
+  type InsertResolvedUrl,
+  type UrlDestination,
+} from "@shared/schema";
+import { canonicalizeUrl } from "@shared/canonicalize";
+import { config } from "./config";
+import { createDatabase, migrateDatabase, type Database } from "./db";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
+
+// The owner is passed separately so callers cannot store entries for someone else by accident
+export type NewResolvedUrl = Omit<InsertResolvedUrl, "userId">;
+
+// Where a saved URL leads when it is re-resolved
+export type Destination = Pick<UrlDestination, "resolvedUrl" | "canonicalUrl">;
+
+// Drift is relative to the destination stored with the entry. It keeps the
+// time it was first seen until the destination moves again or goes back.
+function driftFields(entry: ResolvedUrl, destination: Destination, checkedAt: Date): Pick<ResolvedUrl, "driftedUrl" | "driftedAt"> {
+  if (destination.canonicalUrl === entry.canonicalUrl) {
+    return { driftedUrl: null, driftedAt: null };
+  }
+  if (destination.canonicalUrl === entry.driftedUrl) {
+    return { driftedUrl: entry.driftedUrl, driftedAt: entry.driftedAt };
+  }
+  return { driftedUrl: destination.canonicalUrl, driftedAt: checkedAt };
+}
 
 export interface IStorage {
-  resolveAndStoreUrl(originalUrl: string, resolvedUrl: string): Promise<ResolvedUrl>;
-  getAllResolvedUrls(): Promise<ResolvedUrl[]>;
-  clearAllResolvedUrls(): Promise<void>;
-  checkUrlExists(resolvedUrl: string): Promise<boolean>;
+  sessionStore: session.Store;
+
+  getUser(id: number): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  createUser(user: InsertUser): Promise<User>;
+
+  createApiToken(token: InsertApiToken): Promise<ApiToken>;
+  getApiTokens(userId: number): Promise<ApiToken[]>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  revokeApiToken(userId: number, id: number): Promise<ApiToken | undefined>;
+  touchApiToken(id: number, usedAt: Date): Promise<void>;
+
+  // Undefined when the user already has an entry with the same canonical URL.
+  // The check and the insert are one step, concurrent requests cannot both store.
+  resolveAndStoreUrl(userId: number, entry: NewResolvedUrl): Promise<ResolvedUrl | undefined>;
+  getAllResolvedUrls(userId: number): Promise<ResolvedUrl[]>;
+  clearAllResolvedUrls(userId: number): Promise<void>;
+  // Duplicates are detected on the canonical form of the resolved URL
+  checkUrlExists(userId: number, canonicalUrl: string): Promise<boolean>;
+
+  // Re-resolution of saved entries across all users, never checked first
+  getUrlsDueForCheck(checkedBefore: Date, limit: number): Promise<ResolvedUrl[]>;
+  // `destination` is null when the check failed, which only moves lastCheckedAt
+  recordCheck(id: number, destination: Destination | null, checkedAt: Date): Promise<void>;
+  // Undefined when the entry does not exist or belongs to someone else
+  getDestinationHistory(userId: number, resolvedUrlId: number): Promise<UrlDestination[] | undefined>;
 }
 
 export class MemStorage implements IStorage {
-  private resolvedUrls: Map<number, ResolvedUrl>;
-  private currentId: number;
+  sessionStore: session.Store;
+  protected users: Map<number, User>;
+  protected apiTokens: Map<number, ApiToken>;
+  protected resolvedUrls: Map<number, ResolvedUrl>;
+  protected urlDestinations: Map<number, UrlDestination>;
+  protected currentUserId: number;
+  protected currentTokenId: number;
+  protected currentId: number;
+  protected currentDestinationId: number;
 
   constructor() {
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000, // prune expired entries every 24h
+    });
+    this.users = new Map();
+    this.apiTokens = new Map();
     this.resolvedUrls = new Map();
+    this.urlDestinations = new Map();
+    this.currentUserId = 1;
+    this.currentTokenId = 1;
     this.currentId = 1;
+    this.currentDestinationId = 1;
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(user => user.username === username);
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const id = this.currentUserId++;
+    const user: User = { ...insertUser, id, createdAt: new Date() };
+    this.users.set(id, user);
+    return user;
+  }
+
+  async createApiToken(insertToken: InsertApiToken): Promise<ApiToken> {
+    const id = this.currentTokenId++;
+    const token: ApiToken = {
+      ...insertToken,
+      id,
+      createdAt: new Date(),
+      lastUsedAt: null,
+      revokedAt: null,
+    };
+    this.apiTokens.set(id, token);
+    return token;
+  }
+
+  async getApiTokens(userId: number): Promise<ApiToken[]> {
+    return Array.from(this.apiTokens.values())
+      .filter(token => token.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    return Array.from(this.apiTokens.values()).find(token => token.tokenHash === tokenHash);
+  }
+
+  async revokeApiToken(userId: number, id: number): Promise<ApiToken | undefined> {
+    const token = this.apiTokens.get(id);
+    if (!token || token.userId !== userId) return undefined;
+
+    token.revokedAt ??= new Date();
+    return token;
+  }
+
+  async touchApiToken(id: number, usedAt: Date): Promise<void> {
+    const token = this.apiTokens.get(id);
+    if (token) token.lastUsedAt = usedAt;
   }
 
-  async resolveAndStoreUrl(originalUrl: string, resolvedUrl: string): Promise<ResolvedUrl> {
+  async resolveAndStoreUrl(userId: number, entry: NewResolvedUrl): Promise<ResolvedUrl | undefined> {
+    // Checked without awaiting, so nothing can store the same URL in between
+    if (this.hasUrl(userId, entry.canonicalUrl)) return undefined;
+
     const id = this.currentId++;
     const resolvedUrlEntry: ResolvedUrl = {
+      ...entry,
       id,
-      originalUrl,
-      resolvedUrl,
+      userId,
       timestamp: new Date(),
+      lastCheckedAt: null,
+      driftedUrl: null,
+      driftedAt: null,
     };
     this.resolvedUrls.set(id, resolvedUrlEntry);
     return resolvedUrlEntry;
   }
 
-  async getAllResolvedUrls(): Promise<ResolvedUrl[]> {
+  async getAllResolvedUrls(userId: number): Promise<ResolvedUrl[]> {
     return Array.from(this.resolvedUrls.values())
+      .filter(url => url.userId === userId)
       .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
   }
 
-  async clearAllResolvedUrls(): Promise<void> {
-    this.resolvedUrls.clear();
+  async clearAllResolvedUrls(userId: number): Promise<void> {
+    Array.from(this.resolvedUrls.values())
+      .filter(url => url.userId === userId)
+      .forEach(url => this.resolvedUrls.delete(url.id));
+    // Same as the cascade in Postgres
+    Array.from(this.urlDestinations.values())
+      .filter(destination => !this.resolvedUrls.has(destination.resolvedUrlId))
+      .forEach(destination => this.urlDestinations.delete(destination.id));
+  }
+
+  async checkUrlExists(userId: number, canonicalUrl: string): Promise<boolean> {
+    return this.hasUrl(userId, canonicalUrl);
+  }
+
+  async getUrlsDueForCheck(checkedBefore: Date, limit: number): Promise<ResolvedUrl[]> {
+    return Array.from(this.resolvedUrls.values())
+      .filter(url => url.userId !== null && (!url.lastCheckedAt || url.lastCheckedAt < checkedBefore))
+      .sort((a, b) => (a.lastCheckedAt?.getTime() ?? 0) - (b.lastCheckedAt?.getTime() ?? 0))
+      .slice(0, limit);
   }
 
-  async checkUrlExists(resolvedUrl: string): Promise<boolean> {
+  async recordCheck(id: number, destination: Destination | null, checkedAt: Date): Promise<void> {
+    const entry = this.resolvedUrls.get(id);
+    if (!entry) return;
+
+    entry.lastCheckedAt = checkedAt;
+    if (!destination) return;
+
+    // The first check also records the destination the entry was stored with
+    const history = this.historyOf(id);
+    if (history.length === 0) {
+      history.push(this.addDestination(id, entry, entry.timestamp));
+    }
+
+    const latest = history[history.length - 1];
+    if (latest.canonicalUrl === destination.canonicalUrl) {
+      latest.lastSeenAt = checkedAt;
+    } else {
+      this.addDestination(id, destination, checkedAt);
+    }
+
+    Object.assign(entry, driftFields(entry, destination, checkedAt));
+  }
+
+  async getDestinationHistory(userId: number, resolvedUrlId: number): Promise<UrlDestination[] | undefined> {
+    const entry = this.resolvedUrls.get(resolvedUrlId);
+    if (!entry || entry.userId !== userId) return undefined;
+    return this.historyOf(resolvedUrlId);
+  }
+
+  private hasUrl(userId: number, canonicalUrl: string): boolean {
     const urlsArray = Array.from(this.resolvedUrls.values());
-    return urlsArray.some(url => url.resolvedUrl === resolvedUrl);
+    return urlsArray.some(url => url.userId === userId && url.canonicalUrl === canonicalUrl);
+  }
+
+  private historyOf(resolvedUrlId: number): UrlDestination[] {
+    return Array.from(this.urlDestinations.values())
+      .filter(destination => destination.resolvedUrlId === resolvedUrlId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  private addDestination(resolvedUrlId: number, destination: Destination, seenAt: Date): UrlDestination {
+    const id = this.currentDestinationId++;
+    const stored: UrlDestination = {
+      id,
+      resolvedUrlId,
+      resolvedUrl: destination.resolvedUrl,
+      canonicalUrl: destination.canonicalUrl,
+      firstSeenAt: seenAt,
+      lastSeenAt: seenAt,
+    };
+    this.urlDestinations.set(id, stored);
+    return stored;
   }
 }
 
-export const storage = new MemStorage();
+// A session as JSON, like MemoryStore keeps it, and when it expires
+interface StoredSession {
+  sid: string;
+  data: string;
+  expiresAt: number;
+}
+
+// Without a cookie expiry a session lasts a day, as in MemoryStore
+const DEFAULT_SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+function sessionExpiry(data: session.SessionData): number {
+  const expires = data.cookie?.expires;
+  return expires ? new Date(expires).getTime() : Date.now() + DEFAULT_SESSION_TTL_MS;
+}
+
+// Sessions of FileStorage, written with its snapshot so logins survive a
+// restart. `onChange` resolves once the change is on disk.
+class SnapshotSessionStore extends session.Store {
+  sessions = new Map<string, StoredSession>();
+
+  constructor(private onChange: () => Promise<void>) {
+    super();
+  }
+
+  get(sid: string, callback: (err: any, session?: session.SessionData | null) => void): void {
+    const stored = this.sessions.get(sid);
+    if (!stored || stored.expiresAt <= Date.now()) {
+      this.sessions.delete(sid);
+      return callback(null, null);
+    }
+    callback(null, JSON.parse(stored.data));
+  }
+
+  set(sid: string, data: session.SessionData, callback?: (err?: any) => void): void {
+    this.sessions.set(sid, { sid, data: JSON.stringify(data), expiresAt: sessionExpiry(data) });
+    this.save(callback);
+  }
+
+  destroy(sid: string, callback?: (err?: any) => void): void {
+    this.sessions.delete(sid);
+    this.save(callback);
+  }
+
+  touch(sid: string, data: session.SessionData, callback?: () => void): void {
+    const stored = this.sessions.get(sid);
+    if (stored) stored.expiresAt = sessionExpiry(data);
+    this.save(callback);
+  }
+
+  // Sessions still valid, for the snapshot
+  live(): StoredSession[] {
+    const now = Date.now();
+    return Array.from(this.sessions.values()).filter(stored => stored.expiresAt > now);
+  }
+
+  private save(callback?: (err?: any) => void) {
+    this.onChange().then(() => callback?.(), (error) => callback?.(error));
+  }
+}
+
+interface FileSnapshot {
+  version: 1;
+  currentUserId?: number;
+  currentTokenId?: number;
+  currentId: number;
+  currentDestinationId?: number;
+  users?: User[];
+  apiTokens?: ApiToken[];
+  resolvedUrls: ResolvedUrl[];
+  urlDestinations?: UrlDestination[];
+  sessions?: StoredSession[];
+}
+
+// MemStorage that writes a JSON snapshot to disk after every change. Writes go
+// to a temporary file that is fsynced and renamed over the previous snapshot,
+// so a crash leaves either the old or the new file, never a partial one.
+export class FileStorage extends MemStorage {
+  private sessions: SnapshotSessionStore;
+  // The last write started, and the one waiting for it to finish
+  private writing: Promise<void> = Promise.resolve();
+  private nextWrite: Promise<void> | null = null;
+
+  constructor(private filePath: string) {
+    super();
+    this.sessions = new SnapshotSessionStore(() => this.persist());
+    this.sessionStore = this.sessions;
+  }
+
+  async load(): Promise<void> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return;
+      throw error;
+    }
+
+    const snapshot: FileSnapshot = JSON.parse(raw);
+    if (snapshot.version !== 1) {
+      throw new Error(`Unsupported storage file version ${snapshot.version} in ${this.filePath}`);
+    }
+
+    // Snapshots written before accounts existed have no users or tokens
+    this.currentUserId = snapshot.currentUserId ?? 1;
+    this.currentTokenId = snapshot.currentTokenId ?? 1;
+    this.currentId = snapshot.currentId;
+    this.currentDestinationId = snapshot.currentDestinationId ?? 1;
+    this.users = new Map(
+      (snapshot.users ?? []).map(user => [user.id, { ...user, createdAt: new Date(user.createdAt) }]),
+    );
+    this.apiTokens = new Map(
+      (snapshot.apiTokens ?? []).map(token => [token.id, {
+        ...token,
+        createdAt: new Date(token.createdAt),
+        lastUsedAt: token.lastUsedAt ? new Date(token.lastUsedAt) : null,
+        revokedAt: token.revokedAt ? new Date(token.revokedAt) : null,
+      }]),
+    );
+    this.resolvedUrls = new Map(
+      snapshot.resolvedUrls.map(entry => [entry.id, {
+        ...entry,
+        userId: entry.userId ?? null,
+        // Entries from before canonical URLs were stored
+        canonicalUrl: entry.canonicalUrl ?? canonicalizeUrl(entry.resolvedUrl, config.canonicalization),
+        metadata: entry.metadata ?? null,
+        timestamp: new Date(entry.timestamp),
+        lastCheckedAt: entry.lastCheckedAt ? new Date(entry.lastCheckedAt) : null,
+        driftedUrl: entry.driftedUrl ?? null,
+        driftedAt: entry.driftedAt ? new Date(entry.driftedAt) : null,
+      }]),
+    );
+    this.urlDestinations = new Map(
+      (snapshot.urlDestinations ?? []).map(destination => [destination.id, {
+        ...destination,
+        firstSeenAt: new Date(destination.firstSeenAt),
+        lastSeenAt: new Date(destination.lastSeenAt),
+      }]),
+    );
+    this.sessions.sessions = new Map(
+      (snapshot.sessions ?? []).map(stored => [stored.sid, stored]),
+    );
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const user = await super.createUser(insertUser);
+    await this.persist();
+    return user;
+  }
+
+  async createApiToken(insertToken: InsertApiToken): Promise<ApiToken> {
+    const token = await super.createApiToken(insertToken);
+    await this.persist();
+    return token;
+  }
+
+  async revokeApiToken(userId: number, id: number): Promise<ApiToken | undefined> {
+    const token = await super.revokeApiToken(userId, id);
+    if (token) await this.persist();
+    return token;
+  }
+
+  async touchApiToken(id: number, usedAt: Date): Promise<void> {
+    await super.touchApiToken(id, usedAt);
+    await this.persist();
+  }
+
+  async resolveAndStoreUrl(userId: number, entry: NewResolvedUrl): Promise<ResolvedUrl | undefined> {
+    const stored = await super.resolveAndStoreUrl(userId, entry);
+    if (stored) await this.persist();
+    return stored;
+  }
+
+  async clearAllResolvedUrls(userId: number): Promise<void> {
+    await super.clearAllResolvedUrls(userId);
+    await this.persist();
+  }
+
+  async recordCheck(id: number, destination: Destination | null, checkedAt: Date): Promise<void> {
+    await super.recordCheck(id, destination, checkedAt);
+    await this.persist();
+  }
+
+  // Resolves once the current state is on disk. Writes never overlap, and
+  // every change made while one is running, or in the same tick, shares the
+  // next one, so a burst like the scheduler's checks is written once.
+  private persist(): Promise<void> {
+    if (this.nextWrite) return this.nextWrite;
+
+    const write = this.writing
+      // A failed write must not block the ones after it
+      .catch(() => {})
+      .then(() => new Promise(resolve => setImmediate(resolve)))
+      .then(() => {
+        this.nextWrite = null;
+        return this.writeSnapshot(JSON.stringify(this.snapshot()));
+      });
+    this.nextWrite = write;
+    this.writing = write;
+    return write;
+  }
+
+  private snapshot(): FileSnapshot {
+    return {
+      version: 1,
+      currentUserId: this.currentUserId,
+      currentTokenId: this.currentTokenId,
+      currentId: this.currentId,
+      currentDestinationId: this.currentDestinationId,
+      users: Array.from(this.users.values()),
+      apiTokens: Array.from(this.apiTokens.values()),
+      resolvedUrls: Array.from(this.resolvedUrls.values()),
+      urlDestinations: Array.from(this.urlDestinations.values()),
+      sessions: this.sessions.live(),
+    };
+  }
+
+  private async writeSnapshot(contents: string): Promise<void> {
+    const directory = path.dirname(this.filePath);
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.mkdir(directory, { recursive: true });
+
+    const file = await fs.open(tempPath, "w");
+    try {
+      await file.writeFile(contents, "utf8");
+      await file.sync();
+    } finally {
+      await file.close();
+    }
+    await fs.rename(tempPath, this.filePath);
+
+    // Persist the rename itself; not supported on every platform
+    try {
+      const dir = await fs.open(directory, "r");
+      try {
+        await dir.sync();
+      } finally {
+        await dir.close();
+      }
+    } catch {
+      // Best effort
+    }
+  }
+}
+
+export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor(private db: Database) {
+    this.sessionStore = new PostgresSessionStore({
+      pool: db.$client,
+      createTableIfMissing: true,
+    });
+  }
+
+  async migrate(): Promise<void> {
+    await migrateDatabase(this.db);
+  }
+
+  // Migration 0003 filled canonical_url of existing rows with the resolved URL
+  // as is, so they never matched newly resolved ones. Those rows still have
+  // both columns equal; any whose canonical form differs is rewritten. Where
+  // that makes two rows of a user equal, the newer one goes, as in 0006.
+  async backfillCanonicalUrls(): Promise<void> {
+    const rows = await this.db
+      .select({ id: resolvedUrls.id, userId: resolvedUrls.userId, resolvedUrl: resolvedUrls.resolvedUrl })
+      .from(resolvedUrls)
+      .where(eq(resolvedUrls.canonicalUrl, resolvedUrls.resolvedUrl))
+      .orderBy(asc(resolvedUrls.id));
+
+    for (const row of rows) {
+      const canonicalUrl = canonicalizeUrl(row.resolvedUrl, config.canonicalization);
+      if (canonicalUrl === row.resolvedUrl) continue;
+
+      const { userId } = row;
+      await this.db.transaction(async (tx) => {
+        // Entries without an owner are not covered by the unique index
+        const [existing] = userId === null ? [] : await tx
+          .select({ id: resolvedUrls.id })
+          .from(resolvedUrls)
+          .where(and(eq(resolvedUrls.userId, userId), eq(resolvedUrls.canonicalUrl, canonicalUrl)));
+
+        if (existing && existing.id < row.id) {
+          await tx.delete(resolvedUrls).where(eq(resolvedUrls.id, row.id));
+          return;
+        }
+        if (existing) {
+          await tx.delete(resolvedUrls).where(eq(resolvedUrls.id, existing.id));
+        }
+        await tx.update(resolvedUrls).set({ canonicalUrl }).where(eq(resolvedUrls.id, row.id));
+      });
+    }
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async createApiToken(insertToken: InsertApiToken): Promise<ApiToken> {
+    const [token] = await this.db.insert(apiTokens).values(insertToken).returning();
+    return token;
+  }
+
+  async getApiTokens(userId: number): Promise<ApiToken[]> {
+    return this.db
+      .select()
+      .from(apiTokens)
+      .where(eq(apiTokens.userId, userId))
+      .orderBy(desc(apiTokens.createdAt));
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [token] = await this.db.select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  async revokeApiToken(userId: number, id: number): Promise<ApiToken | undefined> {
+    const [token] = await this.db
+      .update(apiTokens)
+      .set({ revokedAt: sql`coalesce(${apiTokens.revokedAt}, now())` })
+      .where(and(eq(apiTokens.id, id), eq(apiTokens.userId, userId)))
+      .returning();
+    return token;
+  }
+
+  async touchApiToken(id: number, usedAt: Date): Promise<void> {
+    await this.db.update(apiTokens).set({ lastUsedAt: usedAt }).where(eq(apiTokens.id, id));
+  }
+
+  async resolveAndStoreUrl(userId: number, entry: NewResolvedUrl): Promise<ResolvedUrl | undefined> {
+    // resolved_urls_user_canonical_idx is unique, a duplicate inserts nothing
+    const [stored] = await this.db
+      .insert(resolvedUrls)
+      .values({ ...entry, userId })
+      .onConflictDoNothing({ target: [resolvedUrls.userId, resolvedUrls.canonicalUrl] })
+      .returning();
+    return stored;
+  }
+
+  async getAllResolvedUrls(userId: number): Promise<ResolvedUrl[]> {
+    // Newest first; entries sharing a timestamp keep insertion order like MemStorage
+    return this.db
+      .select()
+      .from(resolvedUrls)
+      .where(eq(resolvedUrls.userId, userId))
+      .orderBy(desc(resolvedUrls.timestamp), asc(resolvedUrls.id));
+  }
+
+  async clearAllResolvedUrls(userId: number): Promise<void> {
+    await this.db.delete(resolvedUrls).where(eq(resolvedUrls.userId, userId));
+  }
+
+  async checkUrlExists(userId: number, canonicalUrl: string): Promise<boolean> {
+    const [match] = await this.db
+      .select({ id: resolvedUrls.id })
+      .from(resolvedUrls)
+      .where(and(eq(resolvedUrls.userId, userId), eq(resolvedUrls.canonicalUrl, canonicalUrl)))
+      .limit(1);
+    return match !== undefined;
+  }
+
+  async getUrlsDueForCheck(checkedBefore: Date, limit: number): Promise<ResolvedUrl[]> {
+    return this.db
+      .select()
+      .from(resolvedUrls)
+      .where(and(
+        isNotNull(resolvedUrls.userId),
+        or(isNull(resolvedUrls.lastCheckedAt), lt(resolvedUrls.lastCheckedAt, checkedBefore)),
+      ))
+      .orderBy(sql`${resolvedUrls.lastCheckedAt} asc nulls first`, asc(resolvedUrls.id))
+      .limit(limit);
+  }
+
+  async recordCheck(id: number, destination: Destination | null, checkedAt: Date): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      const [entry] = await tx.select().from(resolvedUrls).where(eq(resolvedUrls.id, id)).for("update");
+      if (!entry) return;
+
+      if (destination) {
+        let [latest] = await tx
+          .select()
+          .from(urlDestinations)
+          .where(eq(urlDestinations.resolvedUrlId, id))
+          .orderBy(desc(urlDestinations.id))
+          .limit(1);
+
+        // The first check also records the destination the entry was stored with
+        if (!latest) {
+          [latest] = await tx.insert(urlDestinations).values({
+            resolvedUrlId: id,
+            resolvedUrl: entry.resolvedUrl,
+            canonicalUrl: entry.canonicalUrl,
+            firstSeenAt: entry.timestamp,
+            lastSeenAt: entry.timestamp,
+          }).returning();
+        }
+
+        if (latest.canonicalUrl === destination.canonicalUrl) {
+          await tx.update(urlDestinations).set({ lastSeenAt: checkedAt }).where(eq(urlDestinations.id, latest.id));
+        } else {
+          await tx.insert(urlDestinations).values({
+            resolvedUrlId: id,
+            ...destination,
+            firstSeenAt: checkedAt,
+            lastSeenAt: checkedAt,
+          });
+        }
+      }
+
+      await tx
+        .update(resolvedUrls)
+        .set({ lastCheckedAt: checkedAt, ...(destination && driftFields(entry, destination, checkedAt)) })
+        .where(eq(resolvedUrls.id, id));
+    });
+  }
+
+  async getDestinationHistory(userId: number, resolvedUrlId: number): Promise<UrlDestination[] | undefined> {
+    const [entry] = await this.db
+      .select({ id: resolvedUrls.id })
+      .from(resolvedUrls)
+      .where(and(eq(resolvedUrls.id, resolvedUrlId), eq(resolvedUrls.userId, userId)));
+    if (!entry) return undefined;
+
+    return this.db
+      .select()
+      .from(urlDestinations)
+      .where(eq(urlDestinations.resolvedUrlId, resolvedUrlId))
+      .orderBy(asc(urlDestinations.id));
+  }
+}
+
+function createStorage(): IStorage {
+  switch (config.storage.backend) {
+    case "memory":
+      return new MemStorage();
+    case "file":
+      return new FileStorage(path.resolve(config.storage.filePath));
+    case "postgres":
+      if (!config.storage.databaseUrl) {
+        throw new Error("DATABASE_URL must be set to use the postgres storage backend");
+      }
+      return new DatabaseStorage(createDatabase(config.storage.databaseUrl));
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND "${config.storage.backend}", expected "memory", "file" or "postgres"`);
+  }
+}
+
+export const storage = createStorage();
+
+// Gets the selected backend ready before the server accepts requests
+export async function prepareStorage(): Promise<void> {
+  if (storage instanceof FileStorage) {
+    await storage.load();
+  } else if (storage instanceof DatabaseStorage) {
+    if (config.storage.migrateOnStart) await storage.migrate();
+    await storage.backfillCanonicalUrls();
+  }
+}
@@ -0,0 +1,149 @@
+import { config } from "./config";
+
+// A rule recognises one kind of wrapper URL and returns the URL it wraps,
+// or null when the wrapper does not carry a usable destination
+export interface UnwrapRule {
+  name: string;
+  matches(url: URL): boolean;
+  unwrap(url: URL): string | null;
+}
+
+export interface UnwrapResult {
+  url: string;
+  rule: string;
+}
+
+function hostIs(url: URL, ...hosts: string[]) {
+  return hosts.includes(url.hostname);
+}
+
+function hostEndsWith(url: URL, suffix: string) {
+  return url.hostname === suffix || url.hostname.endsWith(`.${suffix}`);
+}
+
+function param(...names: string[]) {
+  return (url: URL) => {
+    for (const name of names) {
+      const value = url.searchParams.get(name);
+      if (value) return value;
+    }
+    return null;
+  };
+}
+
+// Proofpoint v3 replaces some characters of the wrapped URL with "*" and
+// stores them, base64url encoded, after "__;". "**" followed by a letter is
+// a run of several characters, the letter encodes the run length.
+const PROOFPOINT_RUN_LENGTHS = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_";
+
+function decodeProofpointV3(url: URL): string | null {
+  const match = /\/v3\/__(.+?)__;([^!]*)!/.exec(url.pathname + url.search + url.hash);
+  if (!match) return null;
+
+  const encoded = decodeURIComponent(match[1]);
+  const replacements = Array.from(Buffer.from(match[2], "base64url").toString("utf8"));
+  let position = 0;
+
+  return encoded.replace(/\*(\*.)?/g, (token) => {
+    const length = token.length === 1 ? 1 : PROOFPOINT_RUN_LENGTHS.indexOf(token[2]) + 2;
+    const replaced = replacements.slice(position, position + length).join("");
+    position += length;
+    return replaced;
+  });
+}
+
+function decodeProofpointV2(url: URL): string | null {
+  const value = url.searchParams.get("u");
+  if (!value) return null;
+  return decodeURIComponent(value.replace(/_/g, "/").replace(/-/g, "%"));
+}
+
+const unwrapRules: UnwrapRule[] = [
+  {
+    name: "outlook-safelinks",
+    matches: (url) => hostEndsWith(url, "safelinks.protection.outlook.com"),
+    unwrap: param("url"),
+  },
+  {
+    name: "google",
+    matches: (url) => /^(www\.)?google\.[a-z.]+$/.test(url.hostname) && url.pathname === "/url",
+    unwrap: param("q", "url"),
+  },
+  {
+    name: "facebook",
+    matches: (url) => hostIs(url, "l.facebook.com", "lm.facebook.com", "l.messenger.com") && url.pathname === "/l.php",
+    unwrap: param("u"),
+  },
+  {
+    name: "linkedin",
+    matches: (url) =>
+      hostEndsWith(url, "linkedin.com") && ["/redir/redirect", "/safety/go"].includes(url.pathname),
+    unwrap: param("url"),
+  },
+  {
+    name: "slack",
+    matches: (url) => hostIs(url, "slack-redir.net") && url.pathname === "/link",
+    unwrap: param("url"),
+  },
+  {
+    name: "youtube",
+    matches: (url) => hostIs(url, "youtube.com", "www.youtube.com", "m.youtube.com") && url.pathname === "/redirect",
+    unwrap: param("q"),
+  },
+  {
+    name: "proofpoint-v2",
+    matches: (url) => hostIs(url, "urldefense.proofpoint.com") && url.pathname === "/v2/url",
+    unwrap: decodeProofpointV2,
+  },
+  {
+    name: "proofpoint-v3",
+    matches: (url) => hostIs(url, "urldefense.com", "urldefense.proofpoint.com") && url.pathname.startsWith("/v3/__"),
+    unwrap: decodeProofpointV3,
+  },
+];
+
+// Rules added later take precedence over the built-in ones
+export function registerUnwrapRule(rule: UnwrapRule) {
+  unwrapRules.unshift(rule);
+}
+
+export function getUnwrapRules(): readonly UnwrapRule[] {
+  return unwrapRules;
+}
+
+// Decodes one layer of wrapping without touching the network. Only http(s)
+// destinations are accepted so a wrapper cannot smuggle in another scheme.
+export function unwrapUrl(url: string): UnwrapResult | null {
+  if (!config.unwrap.enabled) return null;
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  for (const rule of unwrapRules) {
+    if (config.unwrap.disabledRules.includes(rule.name) || !rule.matches(parsed)) continue;
+
+    let target: string | null;
+    try {
+      target = rule.unwrap(parsed);
+    } catch {
+      // Malformed encodings are treated as "nothing to unwrap"
+      continue;
+    }
+    if (!target) continue;
+
+    try {
+      const destination = new URL(target);
+      if (destination.protocol === "http:" || destination.protocol === "https:") {
+        return { url: destination.href, rule: rule.name };
+      }
+    } catch {
+      continue;
+    }
+  }
+
+  return null;
+}
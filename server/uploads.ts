@@ -0,0 +1,178 @@
+import Busboy from "busboy";
+import type { Request } from "express";
+import type { Readable } from "stream";
+import { StringDecoder } from "string_decoder";
+import { createGunzip } from "zlib";
+import { z } from "zod";
+import { createInputParser, InputFormatError, InputTooLargeError } from "@shared/input-formats";
+import { LineSplitter } from "@shared/line-splitter";
+import { UrlAnalyzer } from "@shared/url-analysis";
+import { equivalenceRules, inputOptionsSchema, setOperations, type EquivalenceRule, type InputOptions } from "@shared/schema";
+import { config } from "./config";
+
+export class UploadError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "UploadError";
+  }
+}
+
+// Options travel in the query string so they are known before the first file
+// part arrives: ?rules=hostCase,www&operation=intersection&format=csv&csvColumn=2
+export const uploadQuerySchema = inputOptionsSchema.extend({
+  rules: z
+    .string()
+    .optional()
+    .transform(value => (value ? value.split(",").filter(rule => rule.length > 0) : []))
+    .pipe(z.array(z.enum(equivalenceRules))),
+  operation: z.enum(setOperations).optional(),
+});
+
+export interface UploadOptions {
+  rules: readonly EquivalenceRule[];
+  input: InputOptions;
+  // Accept exactly one file and leave file indexes out of the results
+  single?: boolean;
+}
+
+export interface UploadedUrls {
+  analyzer: UrlAnalyzer;
+  // In upload order, matching the file indexes in the analyzer
+  names: string[];
+}
+
+function isGzip(filename: string, mimeType: string) {
+  return /\.gz$/i.test(filename) || mimeType === "application/gzip" || mimeType === "application/x-gzip";
+}
+
+const megabytes = (bytes: number) => Math.round(bytes / (1024 * 1024));
+
+// Splits a byte stream into lines, holding at most one line at a time
+async function* readLines(stream: Readable, maxLineLength: number, onBytes: (bytes: number) => void) {
+  const decoder = new StringDecoder("utf8");
+  const splitter = new LineSplitter(maxLineLength);
+
+  for await (const chunk of stream) {
+    onBytes(chunk.length);
+    yield* splitter.push(decoder.write(chunk));
+  }
+  yield* splitter.push(decoder.end());
+  yield* splitter.end();
+}
+
+// Feeds the files of a multipart upload into a UrlAnalyzer line by line as
+// they arrive, so memory depends on the URLs found and not on the file size.
+// Files ending in .gz, or sent as application/gzip, are decompressed first.
+export function receiveUrlFiles(req: Request, options: UploadOptions): Promise<UploadedUrls> {
+  return new Promise((resolve, reject) => {
+    let busboy: Busboy.Busboy;
+    try {
+      busboy = Busboy({
+        headers: req.headers,
+        limits: { files: options.single ? 1 : config.uploads.maxFiles, fileSize: config.uploads.maxFileBytes },
+      });
+    } catch {
+      // Busboy throws for a missing or non-multipart content type
+      reject(new UploadError("Expected a multipart/form-data upload", 415));
+      return;
+    }
+
+    const analyzer = new UrlAnalyzer(options.rules, config.uploads.maxNonUrlLines);
+    const names: string[] = [];
+    let failure: Error | null = null;
+    let reading: Readable | null = null;
+    // Files are processed one after another so first-seen order follows upload order
+    let queue = Promise.resolve();
+
+    const fail = (error: Error) => {
+      if (failure) return;
+      failure = error;
+      req.unpipe(busboy);
+      reading?.destroy();
+      // Read and discard the rest so the client sees the response, not a reset
+      req.resume();
+      reject(error);
+    };
+
+    const consume = async (input: Readable, index: number) => {
+      const file = options.single ? undefined : index;
+      const parser = createInputParser(names[index], options.input, config.uploads.maxDocumentBytes);
+      // Documents are read whole, so their lines stay uncut and the whole file is limited instead
+      const tooLarge = parser.readsDocument
+        ? `${names[index]} is larger than ${megabytes(config.uploads.maxDocumentBytes)} MB, the most a JSON or HTML file can be`
+        : `${names[index]} is larger than ${megabytes(config.uploads.maxUncompressedBytes)} MB uncompressed`;
+      const maxBytes = parser.readsDocument
+        ? Math.min(config.uploads.maxDocumentBytes, config.uploads.maxUncompressedBytes)
+        : config.uploads.maxUncompressedBytes;
+      let bytes = 0;
+      let line = 0;
+      const lines = readLines(input, parser.readsDocument ? Infinity : config.uploads.maxLineLength, (count) => {
+        bytes += count;
+        if (bytes > maxBytes) fail(new UploadError(tooLarge, 413));
+      });
+
+      for await (const text of lines) {
+        if (failure) break;
+        parser.push(text, ++line).forEach(record => analyzer.addRecord(record, file));
+      }
+      if (!failure) parser.end().forEach(record => analyzer.addRecord(record, file));
+    };
+
+    busboy.on("file", (_field, stream, info) => {
+      const index = names.length;
+      names.push(info.filename || `File ${index + 1}`);
+
+      stream.on("limit", () => {
+        fail(new UploadError(`${names[index]} is larger than ${megabytes(config.uploads.maxFileBytes)} MB`, 413));
+      });
+
+      let input: Readable = stream;
+      if (isGzip(info.filename ?? "", info.mimeType)) {
+        const gunzip = createGunzip();
+        stream.on("error", (error) => gunzip.destroy(error));
+        input = stream.pipe(gunzip);
+      }
+
+      queue = queue.then(async () => {
+        if (failure) {
+          input.resume();
+          return;
+        }
+        reading = input;
+        try {
+          await consume(input, index);
+        } catch (error) {
+          if (error instanceof InputTooLargeError) {
+            fail(new UploadError(`${names[index]}: ${error.message}`, 413));
+            return;
+          }
+          const message = error instanceof InputFormatError
+            ? `${names[index]}: ${error.message}`
+            : error instanceof Error && "code" in error && String(error.code).startsWith("Z_")
+              ? `${names[index]} is not valid gzip`
+              : `Failed to read ${names[index]}`;
+          fail(new UploadError(message, 400));
+        }
+      });
+    });
+
+    busboy.on("filesLimit", () => {
+      fail(new UploadError(options.single ? "Only one file can be uploaded" : `At most ${config.uploads.maxFiles} files can be uploaded`, 413));
+    });
+
+    busboy.on("error", (error: Error) => fail(new UploadError(error.message, 400)));
+
+    busboy.on("close", () => {
+      queue.then(() => {
+        if (failure) return;
+        if (names.length === 0) {
+          reject(new UploadError("No file uploaded", 400));
+          return;
+        }
+        resolve({ analyzer, names });
+      });
+    });
+
+    req.pipe(busboy);
+  });
+}
@@ -0,0 +1,187 @@
+import dns from "dns";
+import net from "net";
+import { Agent } from "undici";
+import { config } from "./config";
+
+// Raised when a URL, or an address it resolves to, is not allowed to be fetched
+export class BlockedUrlError extends Error {
+  status = 403;
+
+  constructor(reason: string) {
+    super(`Blocked by policy: ${reason}`);
+    this.name = "BlockedUrlError";
+  }
+}
+
+const blockedIPv4 = new net.BlockList();
+[
+  ["0.0.0.0", 8],        // "this" network
+  ["10.0.0.0", 8],       // private
+  ["100.64.0.0", 10],    // carrier-grade NAT
+  ["127.0.0.0", 8],      // loopback
+  ["169.254.0.0", 16],   // link-local, cloud metadata
+  ["172.16.0.0", 12],    // private
+  ["192.0.0.0", 24],     // IETF protocol assignments
+  ["192.0.2.0", 24],     // documentation
+  ["192.168.0.0", 16],   // private
+  ["198.18.0.0", 15],    // benchmarking
+  ["198.51.100.0", 24],  // documentation
+  ["203.0.113.0", 24],   // documentation
+  ["224.0.0.0", 4],      // multicast
+  ["240.0.0.0", 4],      // reserved, broadcast
+].forEach(([address, prefix]) => blockedIPv4.addSubnet(address as string, prefix as number, "ipv4"));
+
+const blockedIPv6 = new net.BlockList();
+[
+  ["::", 128],           // unspecified
+  ["::1", 128],          // loopback
+  ["100::", 64],         // discard
+  ["2001:db8::", 32],    // documentation
+  ["fc00::", 7],         // unique local
+  ["fe80::", 10],        // link-local
+  ["ff00::", 8],         // multicast
+].forEach(([address, prefix]) => blockedIPv6.addSubnet(address as string, prefix as number, "ipv6"));
+
+// IPv6 forms that carry an IPv4 address in their last 32 bits
+const embeddedIPv4Prefixes = ["::ffff:", "64:ff9b::", "::"];
+
+function embeddedIPv4(address: string): string | null {
+  const lower = address.toLowerCase();
+  for (const prefix of embeddedIPv4Prefixes) {
+    if (!lower.startsWith(prefix)) continue;
+    const rest = lower.slice(prefix.length);
+    if (net.isIPv4(rest)) return rest;
+
+    // Hex form, e.g. ::ffff:7f00:1
+    const match = rest.match(/^([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+    if (match) {
+      const high = parseInt(match[1], 16);
+      const low = parseInt(match[2], 16);
+      return [high >> 8, high & 0xff, low >> 8, low & 0xff].join(".");
+    }
+  }
+  return null;
+}
+
+export function isBlockedAddress(address: string): boolean {
+  if (net.isIPv4(address)) {
+    return blockedIPv4.check(address, "ipv4");
+  }
+  if (net.isIPv6(address)) {
+    const mapped = embeddedIPv4(address);
+    if (mapped && blockedIPv4.check(mapped, "ipv4")) return true;
+    return blockedIPv6.check(address, "ipv6");
+  }
+  // Not an IP literal we understand, refuse rather than guess
+  return true;
+}
+
+function assertAddressesAllowed(hostname: string, addresses: string[]) {
+  if (addresses.length === 0) {
+    throw new BlockedUrlError(`${hostname} did not resolve to any address`);
+  }
+  const blocked = addresses.find(isBlockedAddress);
+  if (blocked) {
+    throw new BlockedUrlError(`${hostname} resolves to a non-public address (${blocked})`);
+  }
+}
+
+// Checks scheme, port and every address the host currently resolves to.
+// The same address check runs again when the connection is opened, see
+// `guardedDispatcher`, so a DNS answer that changes in between is caught.
+export async function assertUrlAllowed(url: string): Promise<void> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new BlockedUrlError(`"${url}" is not a valid URL`);
+  }
+
+  const policy = config.urlPolicy;
+  if (!policy.allowedSchemes.includes(parsed.protocol.replace(/:$/, ""))) {
+    throw new BlockedUrlError(`scheme "${parsed.protocol}" is not allowed`);
+  }
+
+  if (policy.allowPrivateAddresses) return;
+
+  const port = parsed.port || (parsed.protocol === "https:" ? "443" : "80");
+  if (!policy.allowedPorts.includes(Number(port))) {
+    throw new BlockedUrlError(`port ${port} is not allowed`);
+  }
+
+  if (parsed.username || parsed.password) {
+    throw new BlockedUrlError("URLs with credentials are not allowed");
+  }
+
+  // URL keeps IPv6 literals in brackets
+  const hostname = parsed.hostname.replace(/^\[(.*)\]$/, "$1");
+  if (hostname === "localhost" || hostname.endsWith(".localhost")) {
+    throw new BlockedUrlError(`${hostname} is a local address`);
+  }
+
+  if (net.isIP(hostname)) {
+    if (isBlockedAddress(hostname)) {
+      throw new BlockedUrlError(`${hostname} is a non-public address`);
+    }
+    return;
+  }
+
+  let addresses: dns.LookupAddress[];
+  try {
+    addresses = await dns.promises.lookup(hostname, { all: true, verbatim: true });
+  } catch (error) {
+    // The DNS error stays the cause, its code decides whether a retry may help
+    throw new Error(`Could not resolve host ${hostname}`, { cause: error });
+  }
+  assertAddressesAllowed(hostname, addresses.map(entry => entry.address));
+}
+
+// dns.lookup replacement used for every outgoing connection of the resolver.
+// Sockets always pass options, `all` decides whether one address or every
+// address is answered; all of them are checked either way.
+const guardedLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, entries) => {
+    if (error) return callback(error, []);
+
+    if (!config.urlPolicy.allowPrivateAddresses) {
+      try {
+        assertAddressesAllowed(hostname, entries.map(entry => entry.address));
+      } catch (blocked) {
+        if (blocked instanceof BlockedUrlError) return callback(blocked, []);
+        throw blocked;
+      }
+    }
+
+    if (options.all) {
+      callback(null, entries);
+    } else {
+      callback(null, entries[0].address, entries[0].family);
+    }
+  });
+};
+
+function createGuardedAgent(connectTimeoutMs: number): Agent {
+  return new Agent({
+    connect: { lookup: guardedLookup, timeout: connectTimeoutMs },
+  });
+}
+
+// Pools connections for every resolution with the configured connect timeout
+let sharedDispatcher: Agent | undefined;
+
+// Resolutions that override the connect timeout get an agent of their own,
+// so callers cannot make the server keep one around per value they send.
+// Hand it back to `releaseDispatcher` when done.
+export function guardedDispatcher(connectTimeoutMs: number): Agent {
+  if (connectTimeoutMs !== config.resolverPolicy.connectTimeoutMs) {
+    return createGuardedAgent(connectTimeoutMs);
+  }
+  sharedDispatcher ??= createGuardedAgent(connectTimeoutMs);
+  return sharedDispatcher;
+}
+
+export function releaseDispatcher(agent: Agent): void {
+  if (agent === sharedDispatcher) return;
+  // Every response has been read or cancelled by now
+  agent.destroy().catch(() => {});
+}
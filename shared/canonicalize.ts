@@ -0,0 +1,108 @@
+// Query parameters that only exist to track clicks. Entries ending in "*"
+// match any parameter starting with the rest of the entry.
+export const DEFAULT_TRACKING_PARAMS = [
+  "utm_*",
+  "fbclid",
+  "gclid",
+  "gclsrc",
+  "dclid",
+  "gbraid",
+  "wbraid",
+  "msclkid",
+  "yclid",
+  "twclid",
+  "ttclid",
+  "li_fat_id",
+  "igshid",
+  "mc_cid",
+  "mc_eid",
+  "_hsenc",
+  "_hsmi",
+  "__hssc",
+  "__hstc",
+  "__hsfp",
+  "hsctatracking",
+  "mkt_tok",
+  "oly_anon_id",
+  "oly_enc_id",
+  "rb_clickid",
+  "s_cid",
+  "vero_conv",
+  "vero_id",
+  "wickedid",
+  "_ga",
+  "_gl",
+  "ref_src",
+  "ref_url",
+];
+
+export interface CanonicalizeOptions {
+  stripTrackingParams: boolean;
+  trackingParams: string[];
+  // Drop "/" at the end of any path except the root
+  stripTrailingSlash: boolean;
+  // Drop "#fragment", keeping "#!" and "#/" which single page apps route on
+  dropFragment: boolean;
+  sortQuery: boolean;
+}
+
+export const defaultCanonicalizeOptions: CanonicalizeOptions = {
+  stripTrackingParams: true,
+  trackingParams: DEFAULT_TRACKING_PARAMS,
+  stripTrailingSlash: true,
+  dropFragment: true,
+  sortQuery: true,
+};
+
+export function isTrackingParam(name: string, trackingParams: string[]): boolean {
+  const lower = name.toLowerCase();
+  return trackingParams.some(rule =>
+    rule.endsWith("*") ? lower.startsWith(rule.slice(0, -1).toLowerCase()) : lower === rule.toLowerCase(),
+  );
+}
+
+// Rewrites `url` into a canonical form so equivalent links compare equal.
+// Parsing already lowercases the scheme and host and drops default ports;
+// the options control everything else. Input that is not an absolute URL is
+// returned trimmed but otherwise untouched.
+export function canonicalizeUrl(url: string, options: Partial<CanonicalizeOptions> = {}): string {
+  const opts = { ...defaultCanonicalizeOptions, ...options };
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return url.trim();
+  }
+
+  if (opts.stripTrackingParams || opts.sortQuery) {
+    // A detached copy, the live searchParams rewrites the URL on every change
+    const params = new URLSearchParams(parsed.search);
+    const before = params.toString();
+
+    if (opts.stripTrackingParams) {
+      Array.from(new Set(params.keys()))
+        .filter(name => isTrackingParam(name, opts.trackingParams))
+        .forEach(name => params.delete(name));
+    }
+    if (opts.sortQuery) {
+      params.sort();
+    }
+
+    // Only reserialize when something changed, URLSearchParams re-encodes values
+    const after = params.toString();
+    if (after !== before) {
+      parsed.search = after;
+    }
+  }
+
+  if (opts.stripTrailingSlash && parsed.pathname.length > 1 && parsed.pathname.endsWith("/")) {
+    parsed.pathname = parsed.pathname.replace(/\/+$/, "") || "/";
+  }
+
+  if (opts.dropFragment && !parsed.hash.startsWith("#!") && !parsed.hash.startsWith("#/")) {
+    parsed.hash = "";
+  }
+
+  return parsed.href;
+}
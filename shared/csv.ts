@@ -0,0 +1,16 @@
+// RFC 4180 fields: quoted only when they contain a comma, quote or newline.
+// Fields starting with a formula character are prefixed with a quote so a
+// spreadsheet shows the URL instead of evaluating it.
+export function csvField(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return "";
+
+  let text = String(value);
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(header: string[], rows: (string | number | null | undefined)[][]): string {
+  return [header, ...rows].map(row => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
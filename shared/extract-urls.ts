@@ -0,0 +1,150 @@
+// Finds URLs in free-form text such as emails, chat logs and markdown, so the
+// tools work on whatever was pasted instead of treating each line as a URL.
+import type { NonUrlLine } from "./schema";
+
+export interface ExtractedUrl {
+  url: string;
+  // 1-based line the URL was found on
+  line: number;
+}
+
+export interface UrlExtraction {
+  // Every occurrence in order, duplicates included
+  urls: ExtractedUrl[];
+  // Non-empty lines without a URL
+  nonUrlLines: NonUrlLine[];
+  // Non-empty lines in the text
+  totalLines: number;
+}
+
+// [text](url), [text](<url>) and [text](url "title")
+const MARKDOWN_LINK = /\[[^\]]*\]\(\s*<?([^\s()<>]+(?:\([^\s()<>]*\)[^\s()<>]*)*)>?(?:\s+(?:"[^"]*"|'[^']*'))?\s*\)/g;
+
+// A scheme or "www." that does not continue a word, path or email address
+const URL_START = /(?<![\w@./-])(?:(?:https?|ftp):\/\/|www\.)[^\s<>"'`]+/gi;
+
+// A domain without a scheme, optionally with a port and path: example.com/page
+const BARE_DOMAIN = /^(?:[a-z\d](?:[a-z\d-]*[a-z\d])?\.)+([a-z]{2,24})(:\d+)?([/?#]\S*)?$/i;
+
+// Generic top-level domains a bare domain may end in. Others, like .zip, .mov
+// or .bar, are too easily a file name or a property access.
+const COMMON_TLDS = new Set([
+  "com", "org", "net", "edu", "gov", "mil", "int", "info", "biz", "name", "pro", "mobi",
+  "app", "dev", "io", "xyz", "online", "site", "website", "shop", "store", "blog", "tech",
+  "cloud", "club", "live", "news", "media", "page", "link", "art", "design", "agency",
+  "studio", "space", "world", "life", "today", "email", "solutions", "digital", "network",
+  "systems", "group", "company", "center", "top", "museum", "travel", "asia", "wiki",
+]);
+
+// Two letters are a country code, unless they are a common file extension
+const FILE_EXTENSIONS = new Set([
+  "js", "ts", "md", "sh", "py", "rs", "rb", "go", "cs", "hs", "pm", "ml", "el",
+  "kt", "cc", "hh", "mk", "so", "ps", "db", "gz", "xz", "bz",
+]);
+
+// Without a scheme, "notes.txt" and "config.json" look just like domains. A
+// bare domain needs "www.", a port or path, or a top-level domain that is not
+// a file extension.
+function isBareDomain(candidate: string): boolean {
+  const match = BARE_DOMAIN.exec(candidate);
+  if (!match) return false;
+
+  const [, tld, port, path] = match;
+  if (/^www\./i.test(candidate) || port || path) return true;
+
+  const ending = tld.toLowerCase();
+  return ending.length === 2 ? !FILE_EXTENSIONS.has(ending) : COMMON_TLDS.has(ending);
+}
+
+const CLOSING_BRACKETS: Record<string, string> = { ")": "(", "]": "[", "}": "{" };
+
+// Drops punctuation that ends the sentence rather than the URL. A closing
+// bracket stays when the URL opened it, as in Wikipedia's Foo_(bar).
+export function trimUrlPunctuation(candidate: string): string {
+  let url = candidate;
+  for (;;) {
+    const last = url[url.length - 1];
+    if (/[.,;:!?'"*_~]/.test(last)) {
+      url = url.slice(0, -1);
+      continue;
+    }
+
+    const opening = CLOSING_BRACKETS[last];
+    if (opening) {
+      const opened = url.split(opening).length - 1;
+      const closed = url.split(last).length - 1;
+      if (closed > opened) {
+        url = url.slice(0, -1);
+        continue;
+      }
+    }
+    return url;
+  }
+}
+
+// A host with at least one letter or digit before a dot. Any script counts, so
+// internationalized hosts like "https://bücher.de" are kept. Built with RegExp
+// since the type-check does not allow the "u" flag in literals.
+const HAS_HOST = new RegExp(String.raw`^(?:[a-z]+:\/\/|www\.)[^/?#\s]*[\p{L}\p{N}][^/?#\s]*\.[^/?#\s]`, "iu");
+
+function isUsable(url: string) {
+  // "https://" or "www." alone is not a link
+  return HAS_HOST.test(url)
+    || /^[a-z]+:\/\/\[[\da-f:.]+\]/i.test(url)
+    || /^[a-z]+:\/\/localhost\b/i.test(url);
+}
+
+// URLs on one line, in the order they appear
+export function extractUrlsFromLine(text: string): string[] {
+  const found: { index: number; url: string }[] = [];
+
+  // Markdown targets first, then blank the whole link out so its text and
+  // target are not reported twice
+  let rest = text.replace(MARKDOWN_LINK, (match, target: string, offset: number) => {
+    const url = trimUrlPunctuation(target);
+    if (isUsable(url) || isBareDomain(url)) {
+      found.push({ index: offset, url });
+    }
+    return " ".repeat(match.length);
+  });
+
+  rest = rest.replace(URL_START, (match, offset: number) => {
+    const url = trimUrlPunctuation(match);
+    if (isUsable(url)) {
+      found.push({ index: offset, url });
+    }
+    return " ".repeat(match.length);
+  });
+
+  // Plain domain lists are common enough to accept, but only as a whole line
+  const remaining = rest.trim();
+  if (found.length === 0 && isBareDomain(remaining)) {
+    found.push({ index: 0, url: remaining });
+  }
+
+  return found.sort((a, b) => a.index - b.index).map(entry => entry.url);
+}
+
+export function extractUrls(text: string): UrlExtraction {
+  const result: UrlExtraction = { urls: [], nonUrlLines: [], totalLines: 0 };
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    result.totalLines++;
+    const urls = extractUrlsFromLine(line);
+    if (urls.length === 0) {
+      result.nonUrlLines.push({ line: index + 1, text: line });
+    }
+    urls.forEach(url => result.urls.push({ url, line: index + 1 }));
+  });
+
+  return result;
+}
+
+// First occurrence of each URL, in order
+export function uniqueUrls(urls: ExtractedUrl[]): string[] {
+  return Array.from(new Set(urls.map(entry => entry.url)));
+}
+
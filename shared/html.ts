@@ -0,0 +1,43 @@
+// Just enough HTML handling to read tags out of the start of a page, or the
+// links out of an uploaded one, and to write exported link lists. This never
+// builds a DOM.
+
+const entities: Record<string, string> = { amp: "&", quot: '"', apos: "'", lt: "<", gt: ">", nbsp: " " };
+
+export function decodeEntities(value: string) {
+  return value.replace(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      // fromCodePoint throws beyond U+10FFFF
+      return Number.isNaN(code) || code > 0x10ffff ? match : String.fromCodePoint(code);
+    }
+    return entities[entity.toLowerCase()] ?? match;
+  });
+}
+
+const escapes: Record<string, string> = { "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" };
+
+// Safe in text and in quoted attribute values, of HTML and XML alike
+export function escapeHtml(value: string) {
+  return value.replace(/[&<>"']/g, char => escapes[char]);
+}
+
+export function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([a-z][\w:-]*)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/gi;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(tag))) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? "");
+  }
+  return attributes;
+}
+
+// Attributes of every opening `<name ...>` tag, in document order
+export function findTags(html: string, name: string) {
+  return (html.match(new RegExp(`<${name}\\b[^>]*>`, "gi")) ?? []).map(parseAttributes);
+}
+
+// Commented out markup is neither rendered nor executed
+export function stripComments(html: string) {
+  return html.replace(/<!--[\s\S]*?(?:-->|$)/g, "");
+}
@@ -0,0 +1,444 @@
+import { extractUrlsFromLine, trimUrlPunctuation } from "./extract-urls";
+import { decodeEntities, parseAttributes, stripComments } from "./html";
+import type { InputFormat, InputOptions } from "./schema";
+
+export interface ParsedLink {
+  url: string;
+  title?: string;
+  tags?: string[];
+}
+
+// One line, CSV row, JSON value or HTML link. `line` is where it starts in
+// the file, for JSON it is the position of the value in the selection.
+// Records without links are reported as lines without a URL.
+export interface ParsedRecord {
+  line: number;
+  text: string;
+  links: ParsedLink[];
+}
+
+// Text arrives one line at a time. Formats that can only be read as a whole
+// document (JSON, HTML) collect the lines and do their work in end().
+export interface InputParser {
+  // Set by whole-document parsers: their lines must reach them uncut, so
+  // readers limit the size of the whole file instead of each line
+  readsDocument?: boolean;
+  push(line: string, lineNumber: number): ParsedRecord[];
+  end(): ParsedRecord[];
+}
+
+export interface InputFormatDefinition {
+  format: InputFormat;
+  label: string;
+  // Lowercase, with the dot. The first definition claiming an extension wins.
+  extensions: string[];
+  // `maxDocumentLength` bounds any text a parser holds on to across lines
+  create(options: InputOptions, maxDocumentLength: number): InputParser;
+}
+
+// Input that cannot be read in the chosen format, shown to the user as is
+export class InputFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InputFormatError";
+  }
+}
+
+// More text than a parser may hold at once, a JSON or HTML document or one CSV row
+export class InputTooLargeError extends InputFormatError {
+  constructor(public maxLength: number) {
+    super(`Larger than ${Math.round(maxLength / (1024 * 1024))} MB, the most a single document or CSV row can be`);
+    this.name = "InputTooLargeError";
+  }
+}
+
+// Collects lines for a parser that reads them all at once
+function documentBuffer(maxDocumentLength: number) {
+  const lines: string[] = [];
+  let length = 0;
+  return {
+    add(line: string) {
+      length += line.length + 1;
+      if (length > maxDocumentLength) throw new InputTooLargeError(maxDocumentLength);
+      lines.push(line);
+    },
+    text: () => lines.join("\n"),
+  };
+}
+
+const urlLinks = (text: string): ParsedLink[] => extractUrlsFromLine(text).map(url => ({ url }));
+
+function splitTags(value: unknown): string[] {
+  const tags = Array.isArray(value) ? value.map(String) : typeof value === "string" ? value.split(/[,;|]/) : [];
+  return tags.map(tag => tag.trim()).filter(tag => tag.length > 0);
+}
+
+function createTextParser(): InputParser {
+  return {
+    push(line, lineNumber) {
+      const text = line.trim();
+      return text ? [{ line: lineNumber, text, links: urlLinks(text) }] : [];
+    },
+    end: () => [],
+  };
+}
+
+const MARKDOWN_INLINE = /\[((?:\\.|[^\]\\])*)\]\(\s*<?([^\s()<>]+(?:\([^\s()<>]*\)[^\s()<>]*)*)>?(?:\s+(?:"([^"]*)"|'([^']*)'))?\s*\)/g;
+// [label]: https://example.com "Optional title"
+const MARKDOWN_REFERENCE = /^\s{0,3}\[([^\]]+)\]:\s*<?(\S+?)>?(?:\s+(?:"([^"]*)"|'([^']*)'|\(([^)]*)\)))?\s*$/;
+
+// Plain URLs and autolinks as in text, plus the text of [links](...) and
+// reference definitions as titles
+function createMarkdownParser(): InputParser {
+  let inFence = false;
+
+  return {
+    push(line, lineNumber) {
+      const text = line.trim();
+      // Fenced code is usually example markup, not links worth keeping
+      if (/^(```|~~~)/.test(text)) {
+        inFence = !inFence;
+        return [];
+      }
+      if (!text || inFence) return [];
+
+      const titles = new Map<string, string>();
+      for (const match of Array.from(text.matchAll(MARKDOWN_INLINE))) {
+        const title = (match[1].replace(/\\(.)/g, "$1") || match[3] || match[4] || "").trim();
+        if (title) titles.set(trimUrlPunctuation(match[2]), title);
+      }
+      const reference = MARKDOWN_REFERENCE.exec(text);
+      if (reference) {
+        titles.set(trimUrlPunctuation(reference[2]), (reference[3] || reference[4] || reference[5] || reference[1]).trim());
+      }
+
+      const links = extractUrlsFromLine(text).map(url => ({ url, title: titles.get(url) }));
+      return [{ line: lineNumber, text, links }];
+    },
+    end: () => [],
+  };
+}
+
+function countQuotes(text: string) {
+  let count = 0;
+  for (let i = text.indexOf('"'); i !== -1; i = text.indexOf('"', i + 1)) count++;
+  return count;
+}
+
+// The candidate appearing most often outside quotes in the first row
+function detectDelimiter(row: string) {
+  const unquoted = row.replace(/"[^"]*"/g, "");
+  const counts = [",", ";", "\t"].map(delimiter => ({ delimiter, count: unquoted.split(delimiter).length - 1 }));
+  return counts.reduce((best, entry) => (entry.count > best.count ? entry : best)).delimiter;
+}
+
+function parseCsvRow(row: string, delimiter: string): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < row.length; i++) {
+    const char = row[i];
+    if (quoted) {
+      if (char === '"' && row[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields;
+}
+
+const TITLE_COLUMN = /^(title|name|label)$/i;
+const TAGS_COLUMN = /^(tags?|labels|keywords|categories)$/i;
+
+// Quoted fields may span lines, so a row is only parsed once its quotes
+// balance. The first row is a header when a column name was asked for, or
+// when none of its fields holds a URL.
+function createCsvParser(options: InputOptions, maxDocumentLength: number): InputParser {
+  const requested = options.csvColumn?.trim() || null;
+  let delimiter: string | null = null;
+  let column: number | null = requested && /^\d+$/.test(requested) ? Number(requested) - 1 : null;
+  let titleColumn = -1;
+  let tagsColumn = -1;
+  let pending = documentBuffer(maxDocumentLength);
+  let pendingLines = 0;
+  let pendingQuotes = 0;
+  let startLine = 0;
+
+  const readHeader = (fields: string[]) => {
+    const names = fields.map(name => name.trim());
+    titleColumn = names.findIndex(name => TITLE_COLUMN.test(name));
+    tagsColumn = names.findIndex(name => TAGS_COLUMN.test(name));
+
+    if (requested && column === null) {
+      column = names.findIndex(name => name.toLowerCase() === requested.toLowerCase());
+      if (column === -1) {
+        throw new InputFormatError(`Column "${requested}" not found, the columns are: ${names.join(", ")}`);
+      }
+    }
+  };
+
+  const processRow = (row: string, line: number): ParsedRecord[] => {
+    if (!row.trim()) return [];
+
+    if (delimiter === null) {
+      delimiter = detectDelimiter(row);
+      const fields = parseCsvRow(row, delimiter);
+      const isHeader = (requested !== null && column === null) || fields.every(field => urlLinks(field.trim()).length === 0);
+      if (isHeader) {
+        readHeader(fields);
+        return [];
+      }
+    }
+
+    const fields = parseCsvRow(row, delimiter);
+    const sources = column !== null ? [fields[column] ?? ""] : fields.filter((_, index) => index !== titleColumn && index !== tagsColumn);
+    const title = titleColumn >= 0 ? fields[titleColumn]?.trim() || undefined : undefined;
+    const tags = tagsColumn >= 0 ? splitTags(fields[tagsColumn]) : undefined;
+
+    const links = sources.flatMap(field => urlLinks(field.trim())).map(link => ({ ...link, title, tags }));
+    return [{ line, text: row.trim(), links }];
+  };
+
+  return {
+    push(line, lineNumber) {
+      if (pendingLines++ === 0) startLine = lineNumber;
+      pending.add(line.replace(/\r$/, ""));
+      pendingQuotes += countQuotes(line);
+      if (pendingQuotes % 2 === 1) return [];
+
+      const row = pending.text();
+      pending = documentBuffer(maxDocumentLength);
+      pendingLines = 0;
+      pendingQuotes = 0;
+      return processRow(row, startLine);
+    },
+    // An unterminated quote swallows the rest of the file, up to the size limit
+    end() {
+      const row = pending.text();
+      pending = documentBuffer(maxDocumentLength);
+      pendingLines = 0;
+      return processRow(row, startLine);
+    },
+  };
+}
+
+type JsonPathStep = string | number | "*";
+
+// A small subset of JSONPath: dotted names, [index], [*] and ["quoted name"],
+// with an optional leading "$". A name applied to an array applies to each
+// element, so "items.url" works like "items[*].url".
+function parseJsonPath(path: string): JsonPathStep[] {
+  const steps: JsonPathStep[] = [];
+  const pattern = /^(?:\.?([^.[\]]+)|\[(\d+|\*|)\]|\["([^"]*)"\]|\['([^']*)'\])/;
+  let rest = path.trim().replace(/^\$/, "");
+
+  while (rest.length > 0) {
+    const match = pattern.exec(rest);
+    if (!match) throw new InputFormatError(`Invalid JSON path "${path}"`);
+    if (match[1] !== undefined) steps.push(match[1] === "*" ? "*" : match[1]);
+    else if (match[2] !== undefined) steps.push(match[2] === "" || match[2] === "*" ? "*" : Number(match[2]));
+    else steps.push(match[3] ?? match[4]);
+    rest = rest.slice(match[0].length);
+  }
+  return steps;
+}
+
+function selectJsonPath(document: unknown, steps: JsonPathStep[]): unknown[] {
+  let values = [document];
+  for (const step of steps) {
+    values = values.flatMap((value): unknown[] => {
+      if (value === null || typeof value !== "object") return [];
+      if (step === "*") return Array.isArray(value) ? value : Object.values(value);
+      if (Array.isArray(value)) {
+        return typeof step === "number" ? (step in value ? [value[step]] : []) : value.flatMap(item => selectJsonPath(item, [step]));
+      }
+      const record = value as Record<string, unknown>;
+      return String(step) in record ? [record[String(step)]] : [];
+    });
+  }
+  return values;
+}
+
+const URL_KEYS = ["url", "href", "link", "uri"];
+const TITLE_KEYS = ["title", "name", "text", "label"];
+const TAGS_KEYS = ["tags", "labels", "keywords", "categories"];
+
+function findKey(record: Record<string, unknown>, keys: string[]) {
+  const key = Object.keys(record).find(name => keys.includes(name.toLowerCase()));
+  return key === undefined ? undefined : record[key];
+}
+
+function jsonLinks(value: unknown): ParsedLink[] {
+  if (typeof value === "string") return urlLinks(value.trim());
+  if (value === null || typeof value !== "object" || Array.isArray(value)) return [];
+
+  const record = value as Record<string, unknown>;
+  const url = findKey(record, URL_KEYS);
+  if (typeof url !== "string") return [];
+
+  const title = findKey(record, TITLE_KEYS);
+  return urlLinks(url.trim()).map(link => ({
+    ...link,
+    title: typeof title === "string" && title.trim() ? title.trim() : undefined,
+    tags: splitTags(findKey(record, TAGS_KEYS)),
+  }));
+}
+
+// Without a path: every object with a url-like key, and every string holding a URL
+function collectJsonLinks(value: unknown, found: unknown[]) {
+  if (typeof value === "string") {
+    if (jsonLinks(value).length > 0) found.push(value);
+  } else if (Array.isArray(value)) {
+    value.forEach(item => collectJsonLinks(item, found));
+  } else if (value !== null && typeof value === "object") {
+    if (jsonLinks(value).length > 0) found.push(value);
+    else Object.values(value).forEach(item => collectJsonLinks(item, found));
+  }
+  return found;
+}
+
+function createJsonParser(options: InputOptions, maxDocumentLength: number): InputParser {
+  const steps = options.jsonPath?.trim() ? parseJsonPath(options.jsonPath) : null;
+  const buffer = documentBuffer(maxDocumentLength);
+
+  return {
+    readsDocument: true,
+    push(line) {
+      buffer.add(line);
+      return [];
+    },
+    end() {
+      let document: unknown;
+      try {
+        document = JSON.parse(buffer.text());
+      } catch (error) {
+        throw new InputFormatError(`Not valid JSON: ${error instanceof Error ? error.message : error}`);
+      }
+
+      // A path selecting an array, such as "$.links", means its elements
+      const values = steps
+        ? selectJsonPath(document, steps).flatMap(value => (Array.isArray(value) ? value : [value]))
+        : collectJsonLinks(document, []);
+      return values.map((value, index) => ({
+        line: index + 1,
+        text: (typeof value === "string" ? value : JSON.stringify(value) ?? "").slice(0, 200),
+        links: jsonLinks(value),
+      }));
+    },
+  };
+}
+
+const textContent = (html: string) => decodeEntities(html.replace(/<[^>]*>/g, " ")).replace(/\s+/g, " ").trim();
+
+// Links of <a href> elements with their text as title. Netscape bookmark
+// files, which every browser exports, also carry TAGS and folder headings;
+// folder names become tags.
+function createHtmlParser(forceBookmarks: boolean, maxDocumentLength: number): InputParser {
+  const buffer = documentBuffer(maxDocumentLength);
+
+  return {
+    readsDocument: true,
+    push(line) {
+      buffer.add(line);
+      return [];
+    },
+    end() {
+      const html = stripComments(buffer.text());
+      const bookmarks = forceBookmarks || /<!doctype\s+netscape-bookmark-file/i.test(html);
+      const records: ParsedRecord[] = [];
+      const folders: (string | null)[] = [];
+      let heading: string | null = null;
+      let line = 1;
+      let position = 0;
+
+      const pattern = /<h3\b[^>]*>([\s\S]*?)<\/h3\s*>|<dl\b[^>]*>|<\/dl\s*>|<a\b([^>]*)>([\s\S]*?)<\/a\s*>/gi;
+      for (const match of Array.from(html.matchAll(pattern))) {
+        const index = match.index ?? 0;
+        line += countNewlines(html, position, index);
+        position = index;
+
+        const token = match[0].slice(0, 3).toLowerCase();
+        if (token === "<h3") {
+          heading = textContent(match[1]);
+        } else if (token === "<dl") {
+          folders.push(heading);
+          heading = null;
+        } else if (token === "</d") {
+          folders.pop();
+        } else {
+          const attributes = parseAttributes(match[2]);
+          const links = urlLinks((attributes.href ?? "").trim());
+          // Relative and in-page links are not worth reporting
+          if (links.length === 0) continue;
+
+          const title = textContent(match[3]) || attributes.title || undefined;
+          const tags = bookmarks
+            ? Array.from(new Set([...splitTags(attributes.tags), ...folders.filter((name): name is string => !!name)]))
+            : undefined;
+          records.push({ line, text: match[0].slice(0, 200), links: links.map(link => ({ ...link, title, tags })) });
+        }
+      }
+      return records;
+    },
+  };
+}
+
+function countNewlines(text: string, from: number, to: number) {
+  let count = 0;
+  for (let i = text.indexOf("\n", from); i !== -1 && i < to; i = text.indexOf("\n", i + 1)) count++;
+  return count;
+}
+
+const inputFormatDefinitions: InputFormatDefinition[] = [
+  { format: "text", label: "Plain text", extensions: [".txt", ".text", ".log"], create: createTextParser },
+  { format: "csv", label: "CSV", extensions: [".csv", ".tsv"], create: createCsvParser },
+  { format: "json", label: "JSON", extensions: [".json"], create: createJsonParser },
+  { format: "html", label: "HTML page", extensions: [".html", ".htm"], create: (_options, maxDocumentLength) => createHtmlParser(false, maxDocumentLength) },
+  { format: "markdown", label: "Markdown", extensions: [".md", ".markdown"], create: createMarkdownParser },
+  // Exported as .html, an HTML file with the bookmark doctype is read the same way
+  { format: "bookmarks", label: "Browser bookmarks", extensions: [], create: (_options, maxDocumentLength) => createHtmlParser(true, maxDocumentLength) },
+];
+
+// Definitions added later take precedence over the built-in ones
+export function registerInputFormat(definition: InputFormatDefinition) {
+  inputFormatDefinitions.unshift(definition);
+}
+
+export function getInputFormats(): readonly InputFormatDefinition[] {
+  return inputFormatDefinitions;
+}
+
+// By extension, looking through a trailing .gz. Unknown extensions are text.
+export function detectInputFormat(filename: string): InputFormat {
+  const name = filename.toLowerCase().replace(/\.gz$/, "");
+  const definition = inputFormatDefinitions.find(entry => entry.extensions.some(extension => name.endsWith(extension)));
+  return definition?.format ?? "text";
+}
+
+export function isSupportedInputFile(filename: string): boolean {
+  const name = filename.toLowerCase().replace(/\.gz$/, "");
+  return inputFormatDefinitions.some(entry => entry.extensions.some(extension => name.endsWith(extension)));
+}
+
+export function createInputParser(filename: string, options: InputOptions, maxDocumentLength = Infinity): InputParser {
+  const format = !options.format || options.format === "auto" ? detectInputFormat(filename) : options.format;
+  const definition = inputFormatDefinitions.find(entry => entry.format === format);
+  if (!definition) {
+    throw new InputFormatError(`Unsupported format "${format}"`);
+  }
+  return definition.create(options, maxDocumentLength);
+}
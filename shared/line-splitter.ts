@@ -0,0 +1,22 @@
+// Cuts text that arrives in chunks into lines, holding back the unfinished
+// last line until more text or the end arrives. Lines longer than
+// `maxLineLength` are cut short so one giant line cannot exhaust memory.
+export class LineSplitter {
+  private pending: string;
+
+  constructor(private maxLineLength = Infinity) {
+    this.pending = "";
+  }
+
+  push(text: string): string[] {
+    const lines = (this.pending + text).split("\n");
+    this.pending = (lines.pop() ?? "").slice(0, this.maxLineLength);
+    return lines.map(line => line.slice(0, this.maxLineLength));
+  }
+
+  end(): string[] {
+    const last = this.pending;
+    this.pending = "";
+    return last ? [last] : [];
+  }
+}
@@ -0,0 +1,179 @@
+import { toCsv } from "./csv";
+import { escapeHtml } from "./html";
+import type { LinkDetail } from "./schema";
+
+export const exportFormats = ["text", "csv", "json", "markdown", "html", "bookmarks", "opml"] as const;
+export type ExportFormat = typeof exportFormats[number];
+
+export const exportFormatDetails: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  text: { label: "Plain text", extension: ".txt", mimeType: "text/plain" },
+  csv: { label: "CSV", extension: ".csv", mimeType: "text/csv" },
+  json: { label: "JSON", extension: ".json", mimeType: "application/json" },
+  markdown: { label: "Markdown links", extension: ".md", mimeType: "text/markdown" },
+  html: { label: "HTML page", extension: ".html", mimeType: "text/html" },
+  bookmarks: { label: "Browser bookmarks", extension: ".html", mimeType: "text/html" },
+  opml: { label: "OPML", extension: ".opml", mimeType: "text/x-opml" },
+};
+
+// One exported link. Only `url` is always known: resolved links also have
+// where they started and when, uploaded lists may carry titles and tags.
+export interface ExportLink {
+  url: string;
+  originalUrl?: string;
+  title?: string | null;
+  tags?: string[];
+  timestamp?: Date | string;
+  // HTTP status of the final response
+  status?: number | null;
+  // Where a checked link leads now
+  finalUrl?: string | null;
+}
+
+// The URLs of an analysis with the titles and tags their input carried
+export function linksWithDetails(urls: string[], details: LinkDetail[]): ExportLink[] {
+  const byUrl = new Map(details.map(detail => [detail.url, detail]));
+  return urls.map(url => ({ url, title: byUrl.get(url)?.title, tags: byUrl.get(url)?.tags }));
+}
+
+const isoTime = (timestamp: Date | string | undefined) => (timestamp === undefined ? undefined : new Date(timestamp).toISOString());
+const titleOf = (link: ExportLink) => link.title || link.url;
+
+function toCsvExport(links: ExportLink[]) {
+  // Columns no link has a value for are left out, so a plain list stays a single column
+  const columns = [
+    { name: "original_url", value: (link: ExportLink) => link.originalUrl },
+    { name: "resolved_url", value: (link: ExportLink) => link.url },
+    { name: "final_url", value: (link: ExportLink) => link.finalUrl },
+    { name: "title", value: (link: ExportLink) => link.title },
+    { name: "tags", value: (link: ExportLink) => link.tags?.join(", ") || undefined },
+    { name: "timestamp", value: (link: ExportLink) => isoTime(link.timestamp) },
+    { name: "status", value: (link: ExportLink) => link.status },
+  ].filter(column => column.name === "resolved_url" || links.some(link => column.value(link) != null));
+
+  // "resolved" only says something next to the original URL
+  const resolved = columns.some(column => column.name === "original_url");
+  const header = columns.map(column => (column.name === "resolved_url" && !resolved ? "url" : column.name));
+  return toCsv(header, links.map(link => columns.map(column => column.value(link))));
+}
+
+function toJsonExport(links: ExportLink[]) {
+  const entries = links.map(link => ({
+    url: link.url,
+    originalUrl: link.originalUrl,
+    title: link.title || undefined,
+    tags: link.tags?.length ? link.tags : undefined,
+    timestamp: isoTime(link.timestamp),
+    status: link.status ?? undefined,
+    finalUrl: link.finalUrl ?? undefined,
+  }));
+  return JSON.stringify(entries, null, 2) + "\n";
+}
+
+// Untitled links are autolinks. Brackets in a title are escaped, and URLs
+// with parentheses are wrapped in <> so they cannot end the link early.
+function toMarkdownExport(links: ExportLink[], title: string) {
+  const items = links.map(link => {
+    if (!link.title) return `- <${link.url}>`;
+    const destination = /[()]/.test(link.url) ? `<${link.url}>` : link.url;
+    return `- [${link.title.replace(/[\\[\]]/g, "\\$&")}](${destination})`;
+  });
+  return [`# ${title}`, "", ...items, ""].join("\n");
+}
+
+function toHtmlExport(links: ExportLink[], title: string) {
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '  <meta charset="utf-8">',
+    `  <title>${escapeHtml(title)}</title>`,
+    "</head>",
+    "<body>",
+    `  <h1>${escapeHtml(title)}</h1>`,
+    "  <ul>",
+    ...links.map(link => `    <li><a href="${escapeHtml(link.url)}">${escapeHtml(titleOf(link))}</a></li>`),
+    "  </ul>",
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+}
+
+// The Netscape bookmark file every browser imports and exports. The header
+// lines are copied as browsers write them, some importers check for them.
+function toBookmarksExport(links: ExportLink[], title: string) {
+  const items = links.map(link => {
+    const attributes = [`HREF="${escapeHtml(link.url)}"`];
+    if (link.timestamp !== undefined) {
+      attributes.push(`ADD_DATE="${Math.floor(new Date(link.timestamp).getTime() / 1000)}"`);
+    }
+    if (link.tags?.length) attributes.push(`TAGS="${escapeHtml(link.tags.join(","))}"`);
+    return `    <DT><A ${attributes.join(" ")}>${escapeHtml(titleOf(link))}</A>`;
+  });
+
+  return [
+    "<!DOCTYPE NETSCAPE-Bookmark-file-1>",
+    "<!-- This is an automatically generated file.",
+    "     It will be read and overwritten.",
+    "     DO NOT EDIT! -->",
+    '<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">',
+    "<TITLE>Bookmarks</TITLE>",
+    "<H1>Bookmarks</H1>",
+    "<DL><p>",
+    `    <DT><H3>${escapeHtml(title)}</H3>`,
+    "    <DL><p>",
+    ...items.map(item => `    ${item}`),
+    "    </DL><p>",
+    "</DL><p>",
+    "",
+  ].join("\n");
+}
+
+// OPML 2.0 outlines of type "link", dates in the RFC 822 format it asks for
+function toOpmlExport(links: ExportLink[], title: string) {
+  const outlines = links.map(link => {
+    const attributes = [`type="link"`, `text="${escapeHtml(titleOf(link))}"`, `url="${escapeHtml(link.url)}"`];
+    if (link.timestamp !== undefined) attributes.push(`created="${new Date(link.timestamp).toUTCString()}"`);
+    if (link.tags?.length) attributes.push(`category="${escapeHtml(link.tags.join(","))}"`);
+    return `    <outline ${attributes.join(" ")}/>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    "  <head>",
+    `    <title>${escapeHtml(title)}</title>`,
+    `    <dateCreated>${new Date().toUTCString()}</dateCreated>`,
+    "  </head>",
+    "  <body>",
+    ...outlines,
+    "  </body>",
+    "</opml>",
+    "",
+  ].join("\n");
+}
+
+// `title` names the list in formats that have a heading or folder
+export function exportLinks(links: ExportLink[], format: ExportFormat, title = "Links"): string {
+  switch (format) {
+    case "text":
+      return links.map(link => link.url).join("\n");
+    case "csv":
+      return toCsvExport(links);
+    case "json":
+      return toJsonExport(links);
+    case "markdown":
+      return toMarkdownExport(links, title);
+    case "html":
+      return toHtmlExport(links, title);
+    case "bookmarks":
+      return toBookmarksExport(links, title);
+    case "opml":
+      return toOpmlExport(links, title);
+  }
+}
+
+// "links.txt" becomes "links.csv" for CSV, names without an extension get one
+export function exportFilename(filename: string, format: ExportFormat): string {
+  return filename.replace(/\.[a-z\d]{1,8}$/i, "") + exportFormatDetails[format].extension;
+}
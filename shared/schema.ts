@@ -1,42 +1,445 @@
-import { pgTable, text, serial, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, timestamp, jsonb, integer, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// A single request made while following redirects
+// "http" hops were fetched, "unwrap" hops were decoded from a known wrapper
+// URL, the rest were found in the HTML of a page that answered 200
+export const redirectMechanisms = ["http", "unwrap", "meta-refresh", "javascript", "canonical"] as const;
+export type RedirectMechanism = typeof redirectMechanisms[number];
+
+export const redirectHopSchema = z.object({
+  url: z.string(),
+  // Null for hops that did not make a request
+  status: z.number().nullable(),
+  method: z.enum(["HEAD", "GET"]).nullable(),
+  location: z.string().nullable(),
+  durationMs: z.number(),
+  // Missing on hops stored before mechanisms were recorded, those are "http"
+  mechanism: z.enum(redirectMechanisms).optional(),
+  // Name of the unwrap rule that decoded the hop
+  rule: z.string().optional(),
+});
+
+export type RedirectHop = z.infer<typeof redirectHopSchema>;
+
+export const users = pgTable("users", {
+  id: serial("id").primaryKey(),
+  username: text("username").notNull().unique(),
+  password: text("password").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertUserSchema = createInsertSchema(users).pick({
+  username: true,
+  password: true,
+}).extend({
+  username: z.string()
+    .min(3, "Username must be at least 3 characters")
+    .max(32, "Username must be at most 32 characters")
+    .regex(/^[a-zA-Z0-9_.-]+$/, "Username may only contain letters, numbers, dots, dashes and underscores"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type User = typeof users.$inferSelect;
+// What the API exposes about a user
+export type PublicUser = Omit<User, "password">;
+
+// Token scopes, each one includes everything the previous one allows
+export const tokenScopes = ["read", "resolve", "admin"] as const;
+export type TokenScope = typeof tokenScopes[number];
+
+export const apiTokens = pgTable("api_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  // Only a SHA-256 of the token is stored; the prefix lets users tell tokens apart
+  tokenHash: text("token_hash").notNull().unique(),
+  tokenPrefix: text("token_prefix").notNull(),
+  scope: text("scope").$type<TokenScope>().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastUsedAt: timestamp("last_used_at"),
+  revokedAt: timestamp("revoked_at"),
+});
+
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1, "Token name is required").max(64, "Token name must be at most 64 characters"),
+  scope: z.enum(tokenScopes),
+});
+
+export type CreateApiTokenRequest = z.infer<typeof createApiTokenSchema>;
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type InsertApiToken = Pick<ApiToken, "userId" | "name" | "tokenHash" | "tokenPrefix" | "scope">;
+// What the API exposes about a token
+export type PublicApiToken = Omit<ApiToken, "tokenHash">;
+// Returned once, when the token is created
+export type CreatedApiToken = PublicApiToken & { token: string };
+
+// Details of the final page, read from its <head>
+export const pageMetadataSchema = z.object({
+  title: z.string().nullable(),
+  description: z.string().nullable(),
+  siteName: z.string().nullable(),
+  // Open Graph or Twitter card image
+  image: z.string().nullable(),
+  favicon: z.string().nullable(),
+});
+
+export type PageMetadata = z.infer<typeof pageMetadataSchema>;
+
 export const resolvedUrls = pgTable("resolved_urls", {
   id: serial("id").primaryKey(),
+  // Null for entries stored before accounts existed; those belong to nobody
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }),
   originalUrl: text("original_url").notNull(),
+  // Final URL exactly as the last hop reported it
   resolvedUrl: text("resolved_url").notNull(),
+  // resolvedUrl after shared/canonicalize.ts, used for duplicate checks
+  canonicalUrl: text("canonical_url").notNull(),
+  redirectChain: jsonb("redirect_chain").$type<RedirectHop[]>().notNull().default([]),
+  // Null when metadata capture is off or the page was not HTML
+  metadata: jsonb("metadata").$type<PageMetadata>(),
   timestamp: timestamp("timestamp").defaultNow().notNull(),
-});
+  // Set by the re-resolution scheduler, see server/scheduler.ts
+  lastCheckedAt: timestamp("last_checked_at"),
+  // Canonical destination found by the latest check when it differs from
+  // canonicalUrl, null while the link still leads where it did
+  driftedUrl: text("drifted_url"),
+  driftedAt: timestamp("drifted_at"),
+}, (table) => [
+  // One entry per destination and user, see IStorage.resolveAndStoreUrl
+  uniqueIndex("resolved_urls_user_canonical_idx").on(table.userId, table.canonicalUrl),
+  index("resolved_urls_last_checked_idx").on(table.lastCheckedAt),
+]);
 
 export const insertResolvedUrlSchema = createInsertSchema(resolvedUrls).pick({
+  userId: true,
   originalUrl: true,
   resolvedUrl: true,
+  canonicalUrl: true,
+}).extend({
+  redirectChain: z.array(redirectHopSchema),
+  metadata: pageMetadataSchema.nullable(),
 });
 
 export type InsertResolvedUrl = z.infer<typeof insertResolvedUrlSchema>;
 export type ResolvedUrl = typeof resolvedUrls.$inferSelect;
 
+// Every distinct destination a saved URL has led to, oldest first
+export const urlDestinations = pgTable("url_destinations", {
+  id: serial("id").primaryKey(),
+  resolvedUrlId: integer("resolved_url_id").notNull().references(() => resolvedUrls.id, { onDelete: "cascade" }),
+  resolvedUrl: text("resolved_url").notNull(),
+  canonicalUrl: text("canonical_url").notNull(),
+  firstSeenAt: timestamp("first_seen_at").notNull(),
+  lastSeenAt: timestamp("last_seen_at").notNull(),
+}, (table) => [
+  index("url_destinations_resolved_url_idx").on(table.resolvedUrlId),
+]);
+
+export type UrlDestination = typeof urlDestinations.$inferSelect;
+
+// How the resolver treats slow and failing hosts. Deployments set the
+// defaults in server/config.ts, requests may override individual fields.
+export const resolverPolicySchema = z.object({
+  connectTimeoutMs: z.number().int().min(100).max(60_000),
+  totalTimeoutMs: z.number().int().min(100).max(120_000),
+  retries: z.number().int().min(0).max(5),
+  backoffBaseMs: z.number().int().min(0).max(10_000),
+  backoffMaxMs: z.number().int().min(0).max(60_000),
+  // 0 waits exactly the backoff, 1 waits anywhere between 0 and the backoff
+  jitter: z.number().min(0).max(1),
+  retryOnStatus: z.array(z.number().int().min(100).max(599)),
+  // Error codes such as ECONNRESET, taken from the cause of a fetch failure
+  retryOnErrors: z.array(z.string()),
+});
+
+export type ResolverPolicy = z.infer<typeof resolverPolicySchema>;
+
+export const resolverPolicyOverrideSchema = resolverPolicySchema.partial();
+
+export type ResolverPolicyOverride = z.infer<typeof resolverPolicyOverrideSchema>;
+
+// Reported with every resolution so callers can see what the policy did
+export interface ResolvePolicyOutcome {
+  policy: ResolverPolicy;
+  // Requests made, retries included
+  attempts: number;
+  retries: number;
+  timedOut: boolean;
+  durationMs: number;
+}
+
 // URL resolution request schema
 export const urlResolveSchema = z.object({
   url: z.string().url("Please enter a valid URL"),
+  policy: resolverPolicyOverrideSchema.optional(),
 });
 
 export type UrlResolveRequest = z.infer<typeof urlResolveSchema>;
 
+// Batch resolution request schema; individual URLs are validated per item
+export const urlBatchResolveSchema = z.object({
+  urls: z.array(z.string()).min(1, "At least one URL is required"),
+  concurrency: z.number().int().positive().optional(),
+  policy: resolverPolicyOverrideSchema.optional(),
+});
+
+export type UrlBatchResolveRequest = z.infer<typeof urlBatchResolveSchema>;
+
+export type BatchResolveItem =
+  | { url: string; status: "resolved"; result: ResolvedUrl; cached: boolean; outcome: ResolvePolicyOutcome }
+  | { url: string; status: "duplicate"; resolvedUrl: string; canonicalUrl: string; redirectChain: RedirectHop[]; cached: boolean; outcome: ResolvePolicyOutcome }
+  // `outcome` is missing when the URL was rejected before any request
+  | { url: string; status: "failed"; error: string; outcome?: ResolvePolicyOutcome }
+  | { url: string; status: "cancelled" };
+
+export interface BatchResolveResult {
+  total: number;
+  resolved: number;
+  duplicates: number;
+  failed: number;
+  cancelled: number;
+  items: BatchResolveItem[];
+}
+
+// Background jobs, see server/jobs.ts. Each kind adds its own counters.
+export interface JobStatus {
+  id: string;
+  state: "running" | "completed" | "cancelled";
+  total: number;
+  completed: number;
+  startedAt: string;
+  finishedAt: string | null;
+  etaMs: number | null;
+}
+
+// What the /events stream of a job sends
+export type JobEvent<Status extends JobStatus, Item, Result> =
+  | { type: "snapshot"; job: Status }
+  | { type: "progress"; job: Status; item: Item }
+  | { type: "done"; job: Status; result: Result };
+
+export interface ResolveJobStatus extends JobStatus {
+  resolved: number;
+  duplicates: number;
+  failed: number;
+}
+
+export type ResolveJobEvent = JobEvent<ResolveJobStatus, BatchResolveItem, BatchResolveResult>;
+
+// Link health checks re-resolve the stored list or an uploaded one
+export const healthCheckSchema = z.discriminatedUnion("source", [
+  z.object({ source: z.literal("stored") }),
+  z.object({ source: z.literal("urls"), urls: z.array(z.string()).min(1, "At least one URL is required") }),
+]).and(z.object({
+  concurrency: z.number().int().positive().optional(),
+}));
+
+export type HealthCheckRequest = z.infer<typeof healthCheckSchema>;
+
+// "cancelled" links were not checked because the check was stopped
+export const linkHealthStates = ["ok", "broken", "timeout", "error", "cancelled"] as const;
+export type LinkHealth = typeof linkHealthStates[number];
+
+export interface HealthCheckItem {
+  url: string;
+  health: LinkHealth;
+  // Status of the last response, null when no request got an answer
+  status: number | null;
+  latencyMs: number | null;
+  finalUrl: string | null;
+  // Canonical destination recorded when the URL was first resolved
+  previousUrl: string | null;
+  // Null when there is nothing to compare against
+  changed: boolean | null;
+  error: string | null;
+}
+
+export interface HealthCheckResult {
+  total: number;
+  ok: number;
+  broken: number;
+  timeout: number;
+  error: number;
+  cancelled: number;
+  changed: number;
+  checkedAt: string;
+  items: HealthCheckItem[];
+}
+
+export interface HealthJobStatus extends JobStatus {
+  ok: number;
+  broken: number;
+  timeout: number;
+  error: number;
+  changed: number;
+}
+
+export type HealthJobEvent = JobEvent<HealthJobStatus, HealthCheckItem, HealthCheckResult>;
+
+// Server-side resolution cache, see server/resolution-cache.ts
+export interface ResolutionCacheStats {
+  enabled: boolean;
+  size: number;
+  maxEntries: number;
+  hits: number;
+  misses: number;
+}
+
+export interface ResolutionCacheEntry {
+  url: string;
+  resolvedUrl: string | null;
+  error: string | null;
+  hops: number;
+  hits: number;
+  createdAt: string;
+  expiresAt: string;
+}
+
 // File analysis schemas
+
+// Differences the duplicate checker may ignore when comparing two URLs
+export const equivalenceRules = [
+  "scheme",
+  "hostCase",
+  "trailingSlash",
+  "www",
+  "queryOrder",
+  "trackingParams",
+  "fragment",
+] as const;
+export type EquivalenceRule = typeof equivalenceRules[number];
+
+// Formats the file tools read links from. Saved bookmarks are HTML files and
+// are told apart by their doctype.
+export const inputFormats = ["text", "csv", "json", "html", "markdown", "bookmarks"] as const;
+export type InputFormat = typeof inputFormats[number];
+
+export const inputOptionsSchema = z.object({
+  // Omitted or "auto" picks a format per file from its name
+  format: z.union([z.literal("auto"), z.enum(inputFormats)]).optional(),
+  // Header name or 1-based column number, otherwise every column is searched
+  csvColumn: z.string().optional(),
+  // Such as "items[*].url" or "$.links", otherwise the whole document is searched
+  jsonPath: z.string().optional(),
+});
+
+export type InputOptions = z.infer<typeof inputOptionsSchema>;
+
+// Title and tags the input carried for a URL, when it had any
+export const linkDetailSchema = z.object({
+  url: z.string(),
+  title: z.string().nullable(),
+  tags: z.array(z.string()),
+});
+
+export type LinkDetail = z.infer<typeof linkDetailSchema>;
+
+export const nonUrlLineSchema = z.object({
+  // Index into the merged files, absent for a single text
+  file: z.number().optional(),
+  line: z.number(),
+  text: z.string(),
+});
+
+export type NonUrlLine = z.infer<typeof nonUrlLineSchema>;
+
+export const urlOccurrenceSchema = z.object({
+  file: z.number().optional(),
+  line: z.number(),
+  url: z.string(),
+});
+
+export type UrlOccurrence = z.infer<typeof urlOccurrenceSchema>;
+
+// URLs that are equivalent under the selected rules. The first one seen is
+// kept, `variants` lists every distinct spelling including the kept one.
+export const duplicateGroupSchema = z.object({
+  kept: z.string(),
+  variants: z.array(z.string()),
+  count: z.number(),
+  occurrences: z.array(urlOccurrenceSchema),
+});
+
+export type DuplicateGroup = z.infer<typeof duplicateGroupSchema>;
+
 export const fileAnalysisSchema = z.object({
+  // Non-empty lines, with or without a URL
   totalLines: z.number(),
+  totalUrls: z.number(),
   uniqueLines: z.number(),
   duplicateLines: z.number(),
   urls: z.array(z.string()),
+  nonUrlLines: z.array(nonUrlLineSchema),
+  // Can exceed nonUrlLines.length when only the first lines were kept
+  nonUrlLineCount: z.number(),
+  rules: z.array(z.enum(equivalenceRules)),
+  duplicateGroups: z.array(duplicateGroupSchema),
+  linkDetails: z.array(linkDetailSchema),
 });
 
 export type FileAnalysis = z.infer<typeof fileAnalysisSchema>;
 
+export const fileAnalyzeSchema = z.object({
+  content: z.string().min(1, "File content is required"),
+  rules: z.array(z.enum(equivalenceRules)).optional(),
+});
+
+export type FileAnalyzeRequest = z.infer<typeof fileAnalyzeSchema>;
+
+export const namedFileSchema = z.object({
+  name: z.string().min(1, "File name is required"),
+  content: z.string(),
+});
+
+export type NamedFile = z.infer<typeof namedFileSchema>;
+
 export const fileMergeSchema = z.object({
-  files: z.array(z.string()),
+  // Plain strings are still accepted and named "File 1", "File 2", ...
+  files: z.array(z.union([z.string(), namedFileSchema])),
   filename: z.string().optional(),
+  rules: z.array(z.enum(equivalenceRules)).optional(),
 });
 
 export type FileMergeRequest = z.infer<typeof fileMergeSchema>;
+
+export interface FileMergeResult extends FileAnalysis {
+  files: {
+    name: string;
+    // Unique URLs in the file
+    urls: number;
+    // Not in any earlier file
+    new: number;
+    alreadySeen: number;
+  }[];
+  // One entry per unique URL, in merged order. `sources` are indexes into `files`.
+  sources: { url: string; sources: number[]; firstSeen: UrlOccurrence }[];
+}
+
+// "difference" keeps the URLs of the first file that appear in no other file,
+// "symmetricDifference" the URLs that appear in exactly one file
+export const setOperations = ["union", "intersection", "difference", "symmetricDifference"] as const;
+export type SetOperation = typeof setOperations[number];
+
+export const fileSetOperationSchema = z.object({
+  operation: z.enum(setOperations),
+  files: z.array(namedFileSchema).min(2, "At least two files are required"),
+  rules: z.array(z.enum(equivalenceRules)).optional(),
+});
+
+export type FileSetOperationRequest = z.infer<typeof fileSetOperationSchema>;
+
+export interface SetOperationResult {
+  operation: SetOperation;
+  files: {
+    name: string;
+    // Unique URLs in the file
+    urls: number;
+    // Of those, how many made it into the result
+    kept: number;
+  }[];
+  // `sources` are indexes into `files`
+  urls: { url: string; sources: number[] }[];
+}
@@ -0,0 +1,67 @@
+import { UrlAnalyzer } from "./url-analysis";
+import type { EquivalenceRule, FileMergeResult, NamedFile, SetOperation, SetOperationResult } from "./schema";
+
+const keepers: Record<SetOperation, (sources: number[], fileCount: number) => boolean> = {
+  union: () => true,
+  intersection: (sources, fileCount) => sources.length === fileCount,
+  difference: (sources) => sources.length === 1 && sources[0] === 0,
+  symmetricDifference: (sources) => sources.length === 1,
+};
+
+// `names` are the files fed to `analyzer`, by file index. Streaming callers
+// fill the analyzer themselves, everyone else goes through applySetOperation.
+export function summarizeSetOperation(
+  analyzer: UrlAnalyzer,
+  names: string[],
+  operation: SetOperation,
+): SetOperationResult {
+  const entries = analyzer.provenance();
+  const urls = entries
+    .filter(entry => keepers[operation](entry.sources, names.length))
+    .map(({ url, sources }) => ({ url, sources }));
+
+  return {
+    operation,
+    files: names.map((name, index) => ({
+      name,
+      urls: entries.filter(entry => entry.sources.includes(index)).length,
+      kept: urls.filter(entry => entry.sources.includes(index)).length,
+    })),
+    urls,
+  };
+}
+
+// A union that remembers where every URL came from. A file's "new" URLs are
+// the ones no earlier file contained.
+export function summarizeMerge(analyzer: UrlAnalyzer, names: string[]): FileMergeResult {
+  const sources = analyzer.provenance();
+  return {
+    ...analyzer.result(),
+    files: names.map((name, index) => {
+      const urls = sources.filter(entry => entry.sources.includes(index)).length;
+      const added = sources.filter(entry => entry.sources[0] === index).length;
+      return { name, urls, new: added, alreadySeen: urls - added };
+    }),
+    sources,
+  };
+}
+
+function analyzeFiles(files: NamedFile[], rules: readonly EquivalenceRule[]) {
+  const analyzer = new UrlAnalyzer(rules);
+  files.forEach((file, index) => analyzer.addText(file.content, index));
+  return analyzer;
+}
+
+// URLs are compared with the same equivalence rules as the duplicate checker,
+// the first spelling seen stands for the whole group
+export function applySetOperation(
+  files: NamedFile[],
+  operation: SetOperation,
+  rules: readonly EquivalenceRule[] = [],
+): SetOperationResult {
+  return summarizeSetOperation(analyzeFiles(files, rules), files.map(file => file.name), operation);
+}
+
+export function mergeFiles(files: NamedFile[], rules: readonly EquivalenceRule[] = []): FileMergeResult {
+  return summarizeMerge(analyzeFiles(files, rules), files.map(file => file.name));
+}
@@ -0,0 +1,139 @@
+import { extractUrls, extractUrlsFromLine } from "./extract-urls";
+import type { ParsedLink, ParsedRecord } from "./input-formats";
+import { equivalenceKey } from "./url-equivalence";
+import type { DuplicateGroup, EquivalenceRule, FileAnalysis, LinkDetail, NonUrlLine, UrlOccurrence } from "./schema";
+
+interface Group {
+  kept: string;
+  variants: Set<string>;
+  occurrences: UrlOccurrence[];
+  // Indexes of the files the URL appears in, in upload order
+  sources: number[];
+  // The first title seen for any variant, and the tags of all of them
+  title: string | null;
+  tags: Set<string>;
+}
+
+export interface UrlProvenance {
+  url: string;
+  sources: number[];
+  firstSeen: UrlOccurrence;
+}
+
+// Collects the URLs of one or more texts into the summary shared by the
+// analyze, merge and text-to-file tools. Lines can be fed one at a time, so
+// a caller reading a stream never needs the whole text in memory.
+export class UrlAnalyzer {
+  private groups: Map<string, Group>;
+  private nonUrlLines: NonUrlLine[];
+  private nonUrlLineCount: number;
+  private totalLines: number;
+  private totalUrls: number;
+
+  // Beyond `maxNonUrlLines` lines without a URL are only counted, so a huge
+  // upload of mostly prose does not keep all of it in memory
+  constructor(private rules: readonly EquivalenceRule[] = [], private maxNonUrlLines = Infinity) {
+    this.groups = new Map();
+    this.nonUrlLines = [];
+    this.nonUrlLineCount = 0;
+    this.totalLines = 0;
+    this.totalUrls = 0;
+  }
+
+  // `line` is 1-based, `file` is only given when several texts are combined
+  addLine(text: string, line: number, file?: number) {
+    const trimmed = text.trim();
+    if (!trimmed) return;
+    this.addRecord({ line, text: trimmed, links: extractUrlsFromLine(trimmed).map(url => ({ url })) }, file);
+  }
+
+  // A record read by one of the input format parsers
+  addRecord(record: ParsedRecord, file?: number) {
+    this.totalLines++;
+    if (record.links.length === 0) {
+      const { line, text } = record;
+      this.addNonUrlLine(file === undefined ? { line, text } : { file, line, text });
+    }
+    record.links.forEach(link => this.addUrl(link.url, record.line, file, link));
+  }
+
+  addText(text: string, file?: number) {
+    const extraction = extractUrls(text);
+    this.totalLines += extraction.totalLines;
+    extraction.urls.forEach(({ url, line }) => this.addUrl(url, line, file));
+    extraction.nonUrlLines.forEach(entry => {
+      this.addNonUrlLine(file === undefined ? entry : { file, ...entry });
+    });
+  }
+
+  result(): FileAnalysis {
+    const groups = Array.from(this.groups.values());
+    const duplicateGroups: DuplicateGroup[] = groups
+      .filter(group => group.occurrences.length > 1)
+      .map(group => ({
+        kept: group.kept,
+        variants: Array.from(group.variants),
+        count: group.occurrences.length,
+        occurrences: group.occurrences,
+      }));
+
+    return {
+      totalLines: this.totalLines,
+      totalUrls: this.totalUrls,
+      uniqueLines: groups.length,
+      duplicateLines: this.totalUrls - groups.length,
+      urls: groups.map(group => group.kept),
+      nonUrlLines: this.nonUrlLines,
+      nonUrlLineCount: this.nonUrlLineCount,
+      rules: [...this.rules],
+      duplicateGroups,
+      linkDetails: groups
+        .filter(group => group.title !== null || group.tags.size > 0)
+        .map((group): LinkDetail => ({ url: group.kept, title: group.title, tags: Array.from(group.tags) })),
+    };
+  }
+
+  // Every unique URL in first-seen order, with the files it was found in
+  provenance(): UrlProvenance[] {
+    return Array.from(this.groups.values()).map(group => ({
+      url: group.kept,
+      sources: group.sources,
+      firstSeen: group.occurrences[0],
+    }));
+  }
+
+  private addNonUrlLine(entry: NonUrlLine) {
+    this.nonUrlLineCount++;
+    if (this.nonUrlLines.length < this.maxNonUrlLines) this.nonUrlLines.push(entry);
+  }
+
+  private addUrl(url: string, line: number, file?: number, details?: ParsedLink) {
+    this.totalUrls++;
+    const occurrence = file === undefined ? { line, url } : { file, line, url };
+    const source = file ?? 0;
+    const key = equivalenceKey(url, this.rules);
+    const group = this.groups.get(key);
+    if (group) {
+      group.variants.add(url);
+      group.occurrences.push(occurrence);
+      if (!group.sources.includes(source)) group.sources.push(source);
+      group.title ??= details?.title || null;
+      details?.tags?.forEach(tag => group.tags.add(tag));
+    } else {
+      this.groups.set(key, {
+        kept: url,
+        variants: new Set([url]),
+        occurrences: [occurrence],
+        sources: [source],
+        title: details?.title || null,
+        tags: new Set(details?.tags),
+      });
+    }
+  }
+}
+
+export function analyzeTexts(texts: string[], rules: readonly EquivalenceRule[] = []): FileAnalysis {
+  const analyzer = new UrlAnalyzer(rules);
+  texts.forEach((text, file) => analyzer.addText(text, texts.length > 1 ? file : undefined));
+  return analyzer.result();
+}
@@ -0,0 +1,59 @@
+import { DEFAULT_TRACKING_PARAMS, isTrackingParam } from "./canonicalize";
+import type { EquivalenceRule } from "./schema";
+
+// scheme, authority, path, query and fragment of an absolute or scheme-less URL.
+// A prefix followed by digits and no "//" is a host and port, not a scheme:
+// "example.com:8080/admin" has no scheme.
+const URL_PARTS = /^(?:([a-z][a-z\d+.-]*):(?=\/\/|(?!\d)))?(?:\/\/)?([^/?#]*)([^?#]*)(?:\?([^#]*))?(?:#(.*))?$/i;
+
+// Builds the string two URLs share when they are equivalent under `rules`.
+// Unlike canonicalizeUrl this never goes through URL parsing, which would
+// lowercase the host and re-encode the path whether or not a rule asks for it.
+export function equivalenceKey(url: string, rules: readonly EquivalenceRule[]): string {
+  if (rules.length === 0) return url;
+
+  const match = URL_PARTS.exec(url.trim());
+  if (!match) return url;
+
+  const [, rawScheme, rawAuthority, rawPath, rawQuery, rawFragment] = match;
+  const has = (rule: EquivalenceRule) => rules.includes(rule);
+
+  // Links without a scheme are opened as https
+  const scheme = has("scheme") ? "" : (rawScheme ?? "https").toLowerCase() + ":";
+
+  let authority = rawAuthority;
+  if (has("hostCase")) authority = authority.toLowerCase();
+  if (has("www")) authority = authority.replace(/^www\./i, "");
+
+  let path = rawPath;
+  if (has("trailingSlash")) path = path.replace(/\/+$/, "");
+
+  let params = rawQuery ? rawQuery.split("&").filter(pair => pair.length > 0) : [];
+  if (has("trackingParams")) {
+    params = params.filter(pair => !isTrackingParam(paramName(pair), DEFAULT_TRACKING_PARAMS));
+  }
+  if (has("queryOrder")) {
+    // Stable, so repeated names keep their relative order
+    params = params
+      .map((pair, index) => ({ pair, name: paramName(pair), index }))
+      .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : a.index - b.index))
+      .map(entry => entry.pair);
+  }
+  const query = params.length > 0 ? `?${params.join("&")}` : "";
+
+  // "#!" and "#/" are routes in single page apps, not positions in a page
+  const keepFragment = rawFragment !== undefined
+    && (!has("fragment") || rawFragment.startsWith("!") || rawFragment.startsWith("/"));
+  const fragment = keepFragment ? `#${rawFragment}` : "";
+
+  return `${scheme}//${authority}${path}${query}${fragment}`;
+}
+
+function paramName(pair: string): string {
+  const name = pair.split("=", 1)[0];
+  try {
+    return decodeURIComponent(name.replace(/\+/g, " "));
+  } catch {
+    return name;
+  }
+}